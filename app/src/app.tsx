@@ -1,6 +1,14 @@
 import { createSignal, onMount, Show, For } from "solid-js";
-import { searchExamples, getHealth } from "./lib/search";
-import type { SearchResult, SearchResponse } from "./lib/types";
+import { searchExamples, getHealth, getSuggestions } from "./lib/search";
+import type {
+  SearchResult,
+  SearchResponse,
+  QueryQualifier,
+  SearchMode,
+  Suggestion,
+} from "./lib/types";
+
+const PAGE_SIZE = 10;
 
 export default function App() {
   const [query, setQuery] = createSignal("");
@@ -11,6 +19,16 @@ export default function App() {
   const [examplesCount, setExamplesCount] = createSignal<number | null>(null);
   const [hasSearched, setHasSearched] = createSignal(false);
   const [expandedCode, setExpandedCode] = createSignal<string | null>(null);
+  const [searchedQuery, setSearchedQuery] = createSignal("");
+  const [mode, setMode] = createSignal<SearchMode>("vector");
+  const [searchedMode, setSearchedMode] = createSignal<SearchMode>("vector");
+  const [groupVariants, setGroupVariants] = createSignal(false);
+  const [searchedGrouped, setSearchedGrouped] = createSignal(false);
+  const [total, setTotal] = createSignal(0);
+  const [hasMore, setHasMore] = createSignal(false);
+  const [isLoadingMore, setIsLoadingMore] = createSignal(false);
+  const [qualifiers, setQualifiers] = createSignal<QueryQualifier[]>([]);
+  const [suggestions, setSuggestions] = createSignal<Suggestion[]>([]);
   console.log({ results });
 
   onMount(async () => {
@@ -33,11 +51,22 @@ export default function App() {
     setSearchError(null);
     setResults([]);
     setProcessingTime(null);
+    setHasMore(false);
 
     try {
-      const response = await searchExamples(query(), 10);
+      const response = await searchExamples(query(), {
+        limit: PAGE_SIZE,
+        mode: mode(),
+        groupBy: groupVariants() ? "title" : undefined,
+      });
       console.log({ response });
+      setSearchedQuery(query());
+      setSearchedMode(mode());
+      setSearchedGrouped(groupVariants());
+      setQualifiers(response.parsedQuery.qualifiers);
       setResults(response.results);
+      setTotal(response.total);
+      setHasMore(response.hasMore);
       setProcessingTime(response.processingTimeMs);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -56,16 +85,48 @@ export default function App() {
     }
   }
 
+  // Fetch the next page for the last submitted query and append it
+  async function handleLoadMore() {
+    setIsLoadingMore(true);
+    setSearchError(null);
+
+    try {
+      const response = await searchExamples(searchedQuery(), {
+        limit: PAGE_SIZE,
+        offset: results().length,
+        mode: searchedMode(),
+        groupBy: searchedGrouped() ? "title" : undefined,
+      });
+      setResults([...results(), ...response.results]);
+      setTotal(response.total);
+      setHasMore(response.hasMore);
+    } catch (error) {
+      setSearchError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }
+
   // Handle clear
   function handleClear() {
     setQuery("");
     setResults([]);
+    setHasMore(false);
+    setQualifiers([]);
     setSearchError(null);
     setProcessingTime(null);
     setHasSearched(false);
     setExpandedCode(null);
   }
 
+  // Fetch suggestions for the current input, ignoring stale responses
+  async function updateSuggestions(text: string) {
+    const next = await getSuggestions(text);
+    if (query() === text) {
+      setSuggestions(next);
+    }
+  }
+
   // Toggle code visibility
   function toggleCode(exampleId: string) {
     setExpandedCode(expandedCode() === exampleId ? null : exampleId);
@@ -83,16 +144,43 @@ export default function App() {
       <div style={{ "margin-top": "24px" }}>
         <input
           type="text"
-          placeholder="Search for AlgoKit examples..."
+          placeholder="Search, e.g. box storage lang:python -tag:deprecated"
+          list="search-suggestions"
           value={query()}
           onInput={(e) => {
             setQuery(e.currentTarget.value);
             setHasSearched(false);
+            updateSuggestions(e.currentTarget.value);
           }}
           onKeyPress={(e) => e.key === "Enter" && handleSearch()}
           disabled={isSearching()}
           style={{ width: "400px", padding: "8px", "font-size": "16px" }}
         />
+        <datalist id="search-suggestions">
+          <For each={suggestions()}>
+            {(suggestion) => <option value={suggestion.text} />}
+          </For>
+        </datalist>
+        <select
+          value={mode()}
+          onChange={(e) => setMode(e.currentTarget.value as SearchMode)}
+          disabled={isSearching()}
+          title="Search mode"
+          style={{ padding: "8px", "margin-left": "8px", "font-size": "16px" }}
+        >
+          <option value="vector">Semantic</option>
+          <option value="keyword">Keyword</option>
+          <option value="hybrid">Hybrid</option>
+        </select>
+        <label style={{ "margin-left": "8px", "font-size": "14px" }}>
+          <input
+            type="checkbox"
+            checked={groupVariants()}
+            onChange={(e) => setGroupVariants(e.currentTarget.checked)}
+            disabled={isSearching()}
+          />
+          Group language variants
+        </label>
         <button
           onClick={handleSearch}
           disabled={isSearching() || !query().trim()}
@@ -117,6 +205,27 @@ export default function App() {
         </button>
       </div>
 
+      {/* Inline qualifiers parsed from the query, e.g. lang:python -tag:x */}
+      <Show when={qualifiers().length > 0}>
+        <div style={{ "margin-top": "12px", display: "flex", gap: "8px" }}>
+          <For each={qualifiers()}>
+            {(qualifier) => (
+              <span
+                style={{
+                  padding: "2px 8px",
+                  "border-radius": "12px",
+                  "font-size": "14px",
+                  "background-color": qualifier.negated ? "#fee" : "#eef",
+                }}
+              >
+                {qualifier.negated ? "not " : ""}
+                {qualifier.field}: {qualifier.value}
+              </span>
+            )}
+          </For>
+        </div>
+      </Show>
+
       {/* Search Error */}
       <Show when={searchError()}>
         <div
@@ -136,7 +245,7 @@ export default function App() {
       <Show when={results().length > 0}>
         <div style={{ "margin-top": "24px" }}>
           <h3>
-            Results ({results().length})
+            Results ({results().length} of {total()})
             <Show when={processingTime()}>
               <span
                 style={{
@@ -161,19 +270,33 @@ export default function App() {
                 }}
               >
                 <h4 style={{ "margin-top": "0" }}>{result.title}</h4>
-                <p
-                  style={{
-                    "font-weight": "bold",
-                    color:
-                      result.similarity >= 70
-                        ? "#2d7a2d"
-                        : result.similarity >= 50
-                        ? "#d97706"
-                        : "#666",
-                  }}
-                >
-                  {result.similarity.toFixed(1)}% match
-                </p>
+                <Show when={result.similarity !== undefined}>
+                  <p
+                    style={{
+                      "font-weight": "bold",
+                      color:
+                        result.similarity! >= 70
+                          ? "#2d7a2d"
+                          : result.similarity! >= 50
+                          ? "#d97706"
+                          : "#666",
+                    }}
+                  >
+                    {result.similarity!.toFixed(1)}% match
+                    <Show when={result.scores.keyword !== null}>
+                      <span
+                        style={{
+                          "font-weight": "normal",
+                          "font-size": "14px",
+                          color: "#666",
+                          "margin-left": "8px",
+                        }}
+                      >
+                        (keyword match)
+                      </span>
+                    </Show>
+                  </p>
+                </Show>
                 <p>{result.summary}</p>
                 <div
                   style={{
@@ -198,6 +321,16 @@ export default function App() {
                     {result.target_users.join(", ")}
                   </span>
                 </div>
+                <Show when={result.variants?.length}>
+                  <div style={{ "margin-top": "4px" }}>
+                    <strong>Also available:</strong>{" "}
+                    <span style={{ "font-size": "14px" }}>
+                      {result
+                        .variants!.map((v) => `${v.language} (${v.repository})`)
+                        .join(", ")}
+                    </span>
+                  </div>
+                </Show>
                 <Show when={result.source_code}>
                   <div style={{ "margin-top": "12px" }}>
                     <div
@@ -247,6 +380,15 @@ export default function App() {
               </div>
             )}
           </For>
+          <Show when={hasMore()}>
+            <button
+              onClick={handleLoadMore}
+              disabled={isLoadingMore()}
+              style={{ padding: "8px 16px", "font-size": "16px" }}
+            >
+              {isLoadingMore() ? "Loading..." : "Load more"}
+            </button>
+          </Show>
         </div>
       </Show>
 
@@ -5,7 +5,22 @@
  * for semantic search over AlgoKit examples.
  */
 
-import type { SearchResponse, SearchResult, AlgoKitExample, HealthResponse } from './types';
+import type {
+  SearchResponse,
+  SearchResult,
+  SearchOptions,
+  SearchFilters,
+  SimilarResponse,
+  ExampleBatchResponse,
+  BrowseOptions,
+  BrowseResponse,
+  TaxonomyField,
+  TaxonomyResponse,
+  Suggestion,
+  SuggestResponse,
+  AlgoKitExample,
+  HealthResponse
+} from './types';
 
 // Backend API URL - use environment variable for Cloud Run, fallback to localhost for dev
 const API_URL = import.meta.env.VITE_API_URL
@@ -15,16 +30,34 @@ const API_URL = import.meta.env.VITE_API_URL
 /**
  * Search for AlgoKit examples using semantic similarity
  *
- * Calls the backend API to perform vector search.
+ * Calls the backend API to perform vector, keyword or hybrid search,
+ * optionally restricted by metadata filters (language, complexity,
+ * repository, tags).
  *
  * @param query - The search query text
- * @param limit - Maximum number of results to return (default: 10)
+ * Pass `offset` (e.g. the number of results already shown) to fetch the
+ * next page; `hasMore` in the response says whether one exists.
+ *
+ * @param options - Page limit (default: 10) and offset, metadata filters,
+ *   mode, facet fields to count, diversity/groupBy re-ranking and
+ *   synonym expansion
  * @returns Search response with results and metadata
  */
 export async function searchExamples(
   query: string,
-  limit: number = 10
+  options: SearchOptions = {}
 ): Promise<SearchResponse> {
+  const {
+    limit = 10,
+    offset = 0,
+    filters,
+    mode,
+    facets,
+    diversity,
+    groupBy,
+    expand
+  } = options;
+
   // Validate input
   if (!query || !query.trim()) {
     throw new Error('Search query cannot be empty');
@@ -38,7 +71,17 @@ export async function searchExamples(
       headers: {
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify({ query, limit })
+      body: JSON.stringify({
+        query,
+        limit,
+        offset,
+        filters,
+        mode,
+        facets,
+        diversity,
+        groupBy,
+        expand
+      })
     });
 
     if (!response.ok) {
@@ -50,7 +93,9 @@ export async function searchExamples(
     }
 
     const data: SearchResponse = await response.json();
-    console.log(`✓ Found ${data.count} results in ${data.processingTimeMs}ms`);
+    console.log(
+      `✓ Found ${data.count} of ${data.total} results in ${data.processingTimeMs}ms`
+    );
 
     return data;
   } catch (error) {
@@ -65,6 +110,93 @@ export async function searchExamples(
   }
 }
 
+/**
+ * Append filters to a querystring as the flat parameters GET endpoints accept
+ *
+ * e.g. `feature_tags.any` becomes repeated `feature_tags_any` parameters.
+ */
+function appendFilterParams(params: URLSearchParams, filters: SearchFilters = {}): void {
+  for (const key of ['language', 'complexity', 'repository'] as const) {
+    const value = filters[key];
+    if (value) params.append(key, value);
+  }
+  for (const key of ['feature_tags', 'target_users'] as const) {
+    filters[key]?.all?.forEach((value) => params.append(`${key}_all`, value));
+    filters[key]?.any?.forEach((value) => params.append(`${key}_any`, value));
+    filters[key]?.none?.forEach((value) => params.append(`${key}_none`, value));
+  }
+  for (const key of ['language', 'complexity', 'repository'] as const) {
+    filters.exclude?.[key]?.forEach((value) => params.append(`exclude_${key}`, value));
+  }
+}
+
+/**
+ * Browse AlgoKit examples by metadata, without a search query
+ *
+ * @param options - Page limit (default: 20) and offset, sort field and
+ *   order, metadata filters and facet fields to count
+ * @returns Page of examples (without vectors or source code)
+ */
+export async function browseExamples(options: BrowseOptions = {}): Promise<BrowseResponse> {
+  const { limit = 20, offset = 0, sort, order, filters, facets } = options;
+
+  const params = new URLSearchParams({ limit: String(limit), offset: String(offset) });
+  if (sort) params.append('sort', sort);
+  if (order) params.append('order', order);
+  facets?.forEach((field) => params.append('facets', field));
+  appendFilterParams(params, filters);
+
+  try {
+    const response = await fetch(`${API_URL}/examples?${params}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        errorData.message || `HTTP ${response.status}: ${response.statusText}`
+      );
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Browse request failed:', error);
+    throw error;
+  }
+}
+
+const TAXONOMY_PATHS: Record<TaxonomyField, string> = {
+  feature_tags: 'tags',
+  repository: 'repositories',
+  language: 'languages'
+};
+
+/**
+ * Get the distinct values of a metadata field with example counts
+ *
+ * @param field - Field to enumerate
+ * @param filters - Optional filters restricting the counted examples
+ * @returns Values ordered by count (most common first)
+ */
+export async function getTaxonomy(
+  field: TaxonomyField,
+  filters?: SearchFilters
+): Promise<TaxonomyResponse> {
+  const params = new URLSearchParams();
+  appendFilterParams(params, filters);
+
+  try {
+    const response = await fetch(`${API_URL}/${TAXONOMY_PATHS[field]}?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error(`Failed to get ${field} values:`, error);
+    throw error;
+  }
+}
+
 /**
  * Get a specific AlgoKit example by ID
  *
@@ -96,6 +228,109 @@ export async function getExampleById(exampleId: string): Promise<AlgoKitExample
   }
 }
 
+/**
+ * Get several AlgoKit examples by ID in one request
+ *
+ * Useful for bookmarks and comparisons. At most 100 IDs per call.
+ *
+ * @param exampleIds - IDs to fetch, in the order they should be returned
+ * @returns Found examples in order, plus the IDs that do not exist
+ */
+export async function getExamplesByIds(exampleIds: string[]): Promise<ExampleBatchResponse> {
+  try {
+    const response = await fetch(`${API_URL}/examples/batch`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ ids: exampleIds })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        errorData.message || `HTTP ${response.status}: ${response.statusText}`
+      );
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Batch example request failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Find examples similar to a given example ("more like this")
+ *
+ * Uses the stored vector of the source example, so no query text is needed.
+ * Filters are sent as flat querystring parameters.
+ *
+ * @param exampleId - The example_id to find neighbours for
+ * @param options - Result limit (default: 10) and metadata filters
+ * @returns Similar examples, or null if the source example was not found
+ */
+export async function getSimilarExamples(
+  exampleId: string,
+  options: { limit?: number; filters?: SearchFilters } = {}
+): Promise<SimilarResponse | null> {
+  const { limit = 10, filters = {} } = options;
+
+  const params = new URLSearchParams({ limit: String(limit) });
+  appendFilterParams(params, filters);
+
+  try {
+    const response = await fetch(
+      `${API_URL}/examples/${encodeURIComponent(exampleId)}/similar?${params}`
+    );
+
+    if (response.status === 404) {
+      console.log(`Example not found: ${exampleId}`);
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error(`Failed to get examples similar to ${exampleId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Get autocomplete suggestions for partially typed search text
+ *
+ * Cheap enough to call on every keystroke; failures resolve to an empty
+ * list so the search input keeps working without suggestions.
+ *
+ * @param text - Text typed so far
+ * @param limit - Maximum number of suggestions (default: 8)
+ * @returns Suggestions ordered by relevance
+ */
+export async function getSuggestions(text: string, limit: number = 8): Promise<Suggestion[]> {
+  if (!text.trim()) {
+    return [];
+  }
+
+  try {
+    const params = new URLSearchParams({ q: text, limit: String(limit) });
+    const response = await fetch(`${API_URL}/suggest?${params}`);
+
+    if (!response.ok) {
+      return [];
+    }
+
+    const data: SuggestResponse = await response.json();
+    return data.suggestions;
+  } catch (error) {
+    console.warn('Suggestion request failed:', error);
+    return [];
+  }
+}
+
 /**
  * Get backend health status and database stats
  *
@@ -17,18 +17,166 @@ export interface AlgoKitExample {
   vector?: number[]; // 384-dimensional embedding (not returned from API)
 }
 
+export type SearchMode = "vector" | "keyword" | "hybrid";
+
+export interface SearchScores {
+  vector: number | null; // Similarity percentage, null in keyword mode
+  keyword: number | null; // BM25 score, null when query terms did not match
+  fused: number; // Reciprocal rank fusion score (higher is better)
+  rank: number; // 1-based position in the fused ranking
+}
+
+export interface SearchResultVariant {
+  example_id: string;
+  repository: string;
+  language: string;
+  title: string;
+  folder_name?: string;
+  similarity?: number;
+}
+
 export interface SearchResult extends Omit<AlgoKitExample, "vector"> {
-  similarity: number; // Similarity percentage (0-100, higher is better)
-  _distance: number; // L2 distance (0-2, lower is better)
+  similarity?: number; // Similarity percentage (0-100), omitted in keyword mode
+  _distance?: number; // L2 distance (0-2), omitted in keyword mode
+  scores: SearchScores;
+  variants?: SearchResultVariant[]; // Other examples collapsed by groupBy
+}
+
+export interface ListFilter {
+  all?: string[]; // Example must carry every value
+  any?: string[]; // Example must carry at least one value
+  none?: string[]; // Example must carry none of the values
+}
+
+export interface SearchFilters {
+  language?: string;
+  complexity?: string;
+  repository?: string;
+  feature_tags?: ListFilter;
+  target_users?: ListFilter;
+  exclude?: {
+    language?: string[];
+    complexity?: string[];
+    repository?: string[];
+  };
+}
+
+export interface QueryQualifier {
+  field: FacetField;
+  value: string;
+  negated: boolean; // Typed with a leading "-"
+  raw: string; // As typed, e.g. "-tag:deprecated"
+}
+
+// Inline query syntax parsed by the backend, e.g. "box lang:python -tag:x"
+export interface ParsedQuery {
+  text: string; // Free text that was embedded
+  phrases: string[]; // Quoted phrases, searched as loose words
+  qualifiers: QueryQualifier[];
+}
+
+export type FacetField =
+  | "language"
+  | "complexity"
+  | "repository"
+  | "feature_tags"
+  | "target_users";
+
+// Facet field -> (value -> number of matching examples)
+export type Facets = Partial<Record<FacetField, Record<string, number>>>;
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number; // Ranked results to skip, for "load more" (default: 0)
+  filters?: SearchFilters;
+  mode?: SearchMode;
+  facets?: FacetField[];
+  diversity?: number; // 0 (relevance only) to 1 (maximum novelty)
+  groupBy?: "folder_name" | "title";
+  expand?: boolean; // Synonym/acronym expansion (default: true)
+}
+
+export interface QueryExpansion {
+  term: string; // e.g. "ASA"
+  expansions: string[]; // e.g. ["Algorand Standard Asset", "asset"]
 }
 
 export interface SearchResponse {
   results: SearchResult[];
   query: string;
+  parsedQuery: ParsedQuery;
+  expansions: QueryExpansion[]; // Empty when expansion is disabled
+  mode: SearchMode;
+  filters: SearchFilters; // Filters the backend actually applied
+  facets?: Facets; // Only present when facets were requested
+  count: number; // Results in this page
+  offset: number;
+  total: number; // Examples matching the query and filters
+  hasMore: boolean;
+  processingTimeMs: number;
+}
+
+export interface SimilarResponse {
+  results: SearchResult[];
+  exampleId: string; // Source example the neighbours were found for
+  filters: SearchFilters;
+  count: number;
+  processingTimeMs: number;
+}
+
+export interface ExampleBatchResponse {
+  results: AlgoKitExample[]; // Found examples in request order
+  missing: string[]; // Requested IDs with no matching example
   count: number;
   processingTimeMs: number;
 }
 
+export type ExampleSummary = Omit<AlgoKitExample, "vector" | "source_code">;
+
+export type BrowseSort = "title" | "complexity" | "repository";
+
+export interface BrowseOptions {
+  limit?: number; // Page size (default: 20, max: 100)
+  offset?: number; // Examples to skip
+  sort?: BrowseSort; // Default: title
+  order?: "asc" | "desc"; // Default: asc
+  filters?: SearchFilters;
+  facets?: FacetField[];
+}
+
+export interface BrowseResponse {
+  results: ExampleSummary[];
+  filters: SearchFilters;
+  facets?: Facets;
+  sort: BrowseSort;
+  order: "asc" | "desc";
+  count: number;
+  offset: number;
+  total: number; // Examples matching the filters
+  hasMore: boolean;
+  processingTimeMs: number;
+}
+
+export type TaxonomyField = "feature_tags" | "repository" | "language";
+
+export interface TaxonomyResponse {
+  field: TaxonomyField;
+  values: { value: string; count: number }[]; // Most common first
+  processingTimeMs: number;
+}
+
+export interface Suggestion {
+  text: string;
+  source: "title" | "tag" | "feature" | "query";
+  score: number;
+}
+
+export interface SuggestResponse {
+  query: string;
+  suggestions: Suggestion[];
+  processingTimeMs: number;
+}
+
 export interface HealthResponse {
   status: string;
   timestamp: string;
@@ -0,0 +1,163 @@
+/**
+ * Vector index benchmark command
+ *
+ * Measures recall@k and latency of a collection's vector index against an
+ * exact flat scan, for a range of `nprobes` settings. Stored example
+ * vectors are used as queries, so no embedding model is needed.
+ *
+ * Usage:
+ *   npm run benchmark -- [--collection <name>] [--k 10] [--queries 100] [--nprobes 1,5,10,20,50] [--refine-factor <n>]
+ *
+ * Loads the persisted tables like the server does (see COLLECTIONS_PATH and
+ * the VECTOR_INDEX settings) and benchmarks the default collection unless
+ * `--collection` is given.
+ */
+
+import type { Table } from '@lancedb/lancedb'
+import { getDefaultCollection, getTable, initializeDatabase } from './db/database.js'
+import { findVectorIndex, VECTOR_COLUMN } from './db/vector-index.js'
+
+interface BenchmarkArgs {
+  collection?: string
+  k: number
+  queries: number
+  nprobes: number[]
+  refineFactor?: number
+}
+
+interface Measurement {
+  label: string
+  recall: number
+  meanMs: number
+  p95Ms: number
+}
+
+function parseArgs(args: string[]): BenchmarkArgs {
+  const parsed: BenchmarkArgs = { k: 10, queries: 100, nprobes: [1, 5, 10, 20, 50] }
+  const positiveInteger = (option: string, value: string | undefined) => {
+    const number = Number(value)
+    if (!Number.isInteger(number) || number < 1) {
+      throw new Error(`${option} needs a positive integer, got '${value ?? ''}'`)
+    }
+    return number
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const [option, inlineValue] = args[i].split(/=(.*)/s)
+    const value = () => inlineValue ?? args[++i]
+
+    if (option === '--collection') {
+      parsed.collection = value()
+    } else if (option === '--k') {
+      parsed.k = positiveInteger(option, value())
+    } else if (option === '--queries') {
+      parsed.queries = positiveInteger(option, value())
+    } else if (option === '--nprobes') {
+      parsed.nprobes = (value() ?? '').split(',').map((n) => positiveInteger(option, n))
+    } else if (option === '--refine-factor') {
+      parsed.refineFactor = positiveInteger(option, value())
+    } else {
+      throw new Error(`Unknown argument '${args[i]}'`)
+    }
+  }
+
+  return parsed
+}
+
+/**
+ * Stored vectors spread evenly across the table, so every repository and
+ * batch is represented
+ */
+async function sampleQueryVectors(table: Table, count: number): Promise<number[][]> {
+  const rows = await table.countRows()
+  const step = Math.max(1, Math.floor(rows / count))
+  const vectors: number[][] = []
+
+  for (let offset = 0; offset < rows && vectors.length < count; offset += step) {
+    const [row] = await table.query().select([VECTOR_COLUMN]).offset(offset).limit(1).toArray()
+    vectors.push(Array.from(row[VECTOR_COLUMN]))
+  }
+
+  return vectors
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)]
+}
+
+async function main() {
+  try {
+    const args = parseArgs(process.argv.slice(2))
+    await initializeDatabase()
+
+    const table = getTable(args.collection)
+    const indexType = await findVectorIndex(table)
+    const rowCount = await table.countRows()
+    console.log(`\nBenchmarking ${args.collection ?? getDefaultCollection()}: ${rowCount} rows, vector index: ${indexType}`)
+    if (indexType === 'none') {
+      console.log('No vector index, so every setting is an exact flat scan (set VECTOR_INDEX_THRESHOLD to build one)')
+    }
+
+    const queries = await sampleQueryVectors(table, args.queries)
+    console.log(`Running ${queries.length} queries, k = ${args.k}${
+      args.refineFactor ? `, refine factor ${args.refineFactor}` : ''
+    }\n`)
+
+    // Exact neighbours, and the flat scan's own latency as the baseline
+    const exact: Set<string>[] = []
+    const flatTimes: number[] = []
+    for (const vector of queries) {
+      const start = performance.now()
+      const hits = await table.vectorSearch(vector).bypassVectorIndex().select(['example_id']).limit(args.k).toArray()
+      flatTimes.push(performance.now() - start)
+      exact.push(new Set(hits.map((hit) => hit.example_id)))
+    }
+
+    const measurements: Measurement[] = [{
+      label: 'flat scan',
+      recall: 1,
+      meanMs: flatTimes.reduce((sum, t) => sum + t, 0) / flatTimes.length,
+      p95Ms: percentile(flatTimes, 95)
+    }]
+
+    for (const nprobes of args.nprobes) {
+      const times: number[] = []
+      let found = 0
+      let expected = 0
+
+      for (const [i, vector] of queries.entries()) {
+        let query = table.vectorSearch(vector).nprobes(nprobes).select(['example_id']).limit(args.k)
+        if (args.refineFactor) {
+          query = query.refineFactor(args.refineFactor)
+        }
+
+        const start = performance.now()
+        const hits = await query.toArray()
+        times.push(performance.now() - start)
+
+        found += hits.filter((hit) => exact[i].has(hit.example_id)).length
+        expected += exact[i].size
+      }
+
+      measurements.push({
+        label: `nprobes ${nprobes}`,
+        recall: expected > 0 ? found / expected : 1,
+        meanMs: times.reduce((sum, t) => sum + t, 0) / times.length,
+        p95Ms: percentile(times, 95)
+      })
+    }
+
+    console.log(`${'setting'.padEnd(14)}${`recall@${args.k}`.padStart(10)}${'mean ms'.padStart(10)}${'p95 ms'.padStart(10)}`)
+    for (const { label, recall, meanMs, p95Ms } of measurements) {
+      console.log(
+        `${label.padEnd(14)}${recall.toFixed(3).padStart(10)}${meanMs.toFixed(2).padStart(10)}${p95Ms.toFixed(2).padStart(10)}`
+      )
+    }
+  } catch (err) {
+    console.error('Benchmark failed:', err instanceof Error ? err.message : err)
+    process.exit(1)
+  }
+}
+
+main()
@@ -0,0 +1,101 @@
+/**
+ * Collection configuration for backend
+ *
+ * A collection is a named set of examples with its own embeddings file and
+ * table, e.g. official examples, community examples and internal snippets.
+ * Collections are listed in `data/collections.json` (or `COLLECTIONS_PATH`):
+ *
+ * ```json
+ * {
+ *   "official": { "path": "data/embeddings.json", "description": "Official AlgoKit examples" },
+ *   "community": { "path": "data/community.jsonl", "model": "Xenova/all-MiniLM-L6-v2" }
+ * }
+ * ```
+ *
+ * `model` names the model that produced a file's vectors (default:
+ * SOURCE_EMBEDDING_MODEL, then the default model). The first collection is the
+ * default. Without the file there is a single `examples` collection read
+ * from EMBEDDINGS_PATH / EMBEDDINGS_FORMAT / SOURCE_EMBEDDING_MODEL.
+ */
+
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { resolveEmbeddingsSource, type EmbeddingsSource } from './sources.js'
+
+export interface CollectionConfig {
+  name: string
+  description?: string
+  source: EmbeddingsSource
+}
+
+/**
+ * Name of the collection used when no collections file exists
+ */
+export const DEFAULT_COLLECTION = 'examples'
+
+/**
+ * Lowercase letters, digits and hyphens; table generations append
+ * `_<timestamp>`, so names cannot contain underscores
+ */
+const COLLECTION_NAME_PATTERN = /^[a-z][a-z0-9-]*$/
+
+/**
+ * Read the configured collections
+ *
+ * Unlike the synonym dictionary, an invalid file fails startup: serving
+ * the wrong examples is worse than not serving.
+ *
+ * @param path - JSON file mapping each collection name to its source
+ * @throws Error if the file is invalid
+ */
+export function loadCollectionConfigs(
+  path: string = process.env.COLLECTIONS_PATH || join(process.cwd(), 'data', 'collections.json')
+): CollectionConfig[] {
+  if (!existsSync(path)) {
+    if (process.env.COLLECTIONS_PATH) {
+      throw new Error(`Collections file not found: ${path}`)
+    }
+    return [{ name: DEFAULT_COLLECTION, source: resolveEmbeddingsSource() }]
+  }
+
+  let entries: Record<string, { path?: unknown; format?: unknown; model?: unknown; description?: unknown }>
+  try {
+    entries = JSON.parse(readFileSync(path, 'utf-8'))
+  } catch (error) {
+    throw new Error(
+      `Failed to parse collections file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+    throw new Error(`Collections file ${path} must map collection names to sources`)
+  }
+
+  const configs = Object.entries(entries).map(([name, entry]) => {
+    if (!COLLECTION_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid collection name '${name}' (use lowercase letters, digits and hyphens)`)
+    }
+    if (typeof entry?.path !== 'string' || !entry.path) {
+      throw new Error(`Collection '${name}' needs a path`)
+    }
+    if (entry.format !== undefined && typeof entry.format !== 'string') {
+      throw new Error(`Collection '${name}' has an invalid format`)
+    }
+    if (entry.model !== undefined && (typeof entry.model !== 'string' || !entry.model)) {
+      throw new Error(`Collection '${name}' has an invalid model`)
+    }
+
+    return {
+      name,
+      ...(typeof entry.description === 'string' && { description: entry.description }),
+      source: resolveEmbeddingsSource(entry.path, entry.format, entry.model)
+    }
+  })
+
+  if (configs.length === 0) {
+    throw new Error(`Collections file ${path} lists no collections`)
+  }
+
+  console.log(`✓ Loaded ${configs.length} collections from ${path}`)
+  return configs
+}
@@ -0,0 +1,128 @@
+/**
+ * Curated edits for backend
+ *
+ * Admin upserts and deletes (see `services/curation.ts`) are recorded per
+ * collection in `data/curated/<collection>.json` and applied again to every
+ * table built from the collection's embeddings file, so reloads and
+ * `--rebuild` keep them. Delete a collection's file to discard its edits
+ * from the next build on.
+ */
+
+import { existsSync } from 'fs'
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+import type { Table } from '@lancedb/lancedb'
+import type { AlgoKitExample } from './models.js'
+import { quote } from '../services/filters.js'
+
+/**
+ * Latest edit of one example
+ */
+export interface CuratedEdit {
+  model: string // ID of the model that embedded `example`
+  example: AlgoKitExample | null // null: deleted
+}
+
+export function getCuratedEditsPath(collection: string): string {
+  return join(process.cwd(), 'data', 'curated', `${collection}.json`)
+}
+
+/**
+ * Read a collection's curated edits, by example ID
+ */
+export async function loadCuratedEdits(collection: string): Promise<Map<string, CuratedEdit>> {
+  const path = getCuratedEditsPath(collection)
+  if (!existsSync(path)) {
+    return new Map()
+  }
+
+  try {
+    return new Map(Object.entries(JSON.parse(await readFile(path, 'utf-8'))))
+  } catch (error) {
+    throw new Error(
+      `Failed to parse curated edits ${path}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Record an example's latest edit, replacing any earlier one
+ *
+ * Callers hold the collection's write lock, so edits are not lost to
+ * concurrent writes.
+ */
+export async function recordCuratedEdit(
+  collection: string,
+  exampleId: string,
+  edit: CuratedEdit
+): Promise<void> {
+  const edits = await loadCuratedEdits(collection)
+  edits.set(exampleId, edit)
+
+  const path = getCuratedEditsPath(collection)
+  const tempPath = `${path}.tmp-${process.pid}`
+  await mkdir(dirname(path), { recursive: true })
+  await writeFile(tempPath, JSON.stringify(Object.fromEntries(edits), null, 2), 'utf-8')
+  await rename(tempPath, path)
+}
+
+/**
+ * Apply a collection's curated edits to a table being built
+ *
+ * Upserts embedded with a model other than the table's are skipped with a
+ * warning (their vectors would not be comparable); they apply again once
+ * that model is configured.
+ *
+ * @param modelId - Model the table's vectors come from
+ * @returns Change in the table's row count
+ */
+export async function applyCuratedEdits(
+  table: Table,
+  collection: string,
+  modelId: string
+): Promise<number> {
+  const edits = await loadCuratedEdits(collection)
+  const upserts: AlgoKitExample[] = []
+  const deletes: string[] = []
+  const skipped: string[] = []
+
+  for (const [exampleId, edit] of edits) {
+    if (edit.example === null) {
+      deletes.push(exampleId)
+    } else if (edit.model !== modelId) {
+      skipped.push(exampleId)
+    } else {
+      upserts.push(edit.example)
+    }
+  }
+
+  if (skipped.length > 0) {
+    console.warn(
+      `Skipping ${skipped.length} curated edit(s) of ${collection} embedded with another model than ${modelId}: ${skipped.join(', ')}`
+    )
+  }
+
+  let change = 0
+  if (upserts.length > 0) {
+    const result = await table
+      .mergeInsert('example_id')
+      .whenMatchedUpdateAll()
+      .whenNotMatchedInsertAll()
+      .execute(upserts.map((example) => ({
+        ...example,
+        folder_name: example.folder_name ?? null,
+        source_code: example.source_code ?? null
+      })))
+    change += result.numInsertedRows
+  }
+  if (deletes.length > 0) {
+    const predicate = `example_id IN (${deletes.map(quote).join(', ')})`
+    change -= await table.countRows(predicate)
+    await table.delete(predicate)
+  }
+
+  if (upserts.length + deletes.length > 0) {
+    console.log(`✓ Applied ${upserts.length + deletes.length} curated edit(s) to ${collection}`)
+  }
+  return change
+}
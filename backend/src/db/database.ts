@@ -3,24 +3,160 @@
  *
  * Handles initialization, loading embeddings, and table management.
  * Uses file-based persistence for LanceDB native Rust bindings.
+ *
+ * Every collection (see `collections.ts`) has its own table. Each build of
+ * a collection's table is a new generation (`<collection>_<ms>`). Reloads
+ * build and validate the next generation alongside the live one and then
+ * swap the handle returned by `getTable()`, so a failed reload never
+ * interrupts serving. Requests hold the generation they read through a
+ * lease (`acquireTable`), and a replaced generation is dropped once its
+ * last lease is released.
  */
 
 import * as lancedb from '@lancedb/lancedb'
-import { readFileSync } from 'fs'
-import { join } from 'path'
+import { watchFile } from 'fs'
+import { basename, join } from 'path'
 import type { Table } from '@lancedb/lancedb'
-import { examplesSchema, type AlgoKitExample } from './models.js'
+import { Schema } from 'apache-arrow'
+import {
+  createExamplesSchema,
+  describeModel,
+  fullTextColumns,
+  getEmbeddingModel,
+  EXAMPLES_SCHEMA_VERSION,
+  type EmbeddingModel
+} from './models.js'
+import {
+  createValidator,
+  formatReport,
+  getValidationMode,
+  type ValidationReport
+} from './validation.js'
+import {
+  hashFile,
+  readRecordBatches,
+  type EmbeddingsFormat,
+  type EmbeddingsSource
+} from './sources.js'
+import { loadCollectionConfigs, type CollectionConfig } from './collections.js'
+import { applyCuratedEdits } from './curated.js'
+import {
+  createVectorIndex,
+  expectedVectorIndex,
+  findVectorIndex,
+  getVectorIndexConfig
+} from './vector-index.js'
+import { buildSuggestionIndex } from '../services/suggest.js'
 
 let db: lancedb.Connection | null = null
-let examplesTable: Table | null = null
+const collections = new Map<string, CollectionState>()
+let defaultCollection: string | null = null
+
+/**
+ * Leases held on each table generation, by table name
+ */
+const tableLeases = new Map<string, number>()
+
+/**
+ * Replaced generations still leased, dropped when their last lease is released
+ */
+const retiredTables = new Set<string>()
+
+/**
+ * Live table and reload bookkeeping for one collection
+ */
+interface CollectionState {
+  config: CollectionConfig
+  table: Table | null
+  tableName: string | null
+  contentHash: string | null
+  model: EmbeddingModel | null
+  validationReport: ValidationReport | null
+  lastReload: ReloadStatus | null
+  reloadInProgress: Promise<ReloadResult> | null
+  lock: Promise<unknown>
+}
+
+/**
+ * Schema metadata keys identifying the data a persisted table was built from
+ */
+const CONTENT_HASH_KEY = 'content_hash'
+const SCHEMA_VERSION_KEY = 'schema_version'
+const VALIDATION_REPORT_KEY = 'validation_report'
+const EMBEDDING_MODEL_KEY = 'embedding_model'
+
+export interface InitializeDatabaseOptions {
+  rebuild?: boolean // Recreate the tables even if the persisted ones are current
+  collections?: CollectionConfig[] // Defaults to the collections file (see `collections.ts`)
+}
+
+export interface ReloadOptions {
+  force?: boolean // Rebuild even if the embeddings file is unchanged
+  collection?: string // Defaults to the default collection
+}
+
+export interface ReloadResult {
+  collection: string
+  status: 'reloaded' | 'unchanged'
+  examplesCount: number
+  contentHash: string
+  processingTimeMs: number
+}
+
+/**
+ * A request's hold on one table generation (see `acquireTable`)
+ */
+export interface TableLease {
+  table: Table
+  release(): void // Idempotent
+}
+
+export interface ReloadStatus {
+  at: string // ISO timestamp the reload finished
+  ok: boolean
+  error?: string
+}
+
+export interface CollectionStats {
+  name: string
+  description?: string
+  source: { file: string; format: EmbeddingsFormat }
+  examplesCount: number
+  contentHash: string
+  tableName: string
+  model: EmbeddingModel
+  vectorIndex: string
+  validation: ValidationReport
+  reload?: ReloadStatus
+}
+
+function getDatabasePath(): string {
+  return join(process.cwd(), 'data', 'algokit-examples-db')
+}
+
+/**
+ * Table generations are named `<collection>_<created ms>`; a bare
+ * `<collection>` table from older builds counts as generation 0.
+ */
+function tableNamePattern(collection: string): RegExp {
+  return new RegExp(`^${collection}(?:_(\\d+))?$`)
+}
 
 /**
- * Initialize LanceDB connection and load embeddings from JSON file
+ * Initialize LanceDB connection and load every collection's embeddings
+ *
+ * Each collection's file may be JSON, JSONL, Parquet or Arrow IPC (see
+ * `sources.ts`). The table persisted by a previous start is reused when it
+ * was built from the same file contents (by SHA-256) and schema version, so
+ * warm starts skip reading the file and recreating indexes. Otherwise, or
+ * when `rebuild` is set, the table is recreated.
  *
  * This should be called once on server startup.
  */
-export async function initializeDatabase(): Promise<void> {
-  if (examplesTable) {
+export async function initializeDatabase(
+  options: InitializeDatabaseOptions = {}
+): Promise<void> {
+  if (collections.size > 0) {
     console.log('Database already initialized')
     return
   }
@@ -29,73 +165,741 @@ export async function initializeDatabase(): Promise<void> {
     console.log('Initializing LanceDB...')
 
     // Connect to LanceDB with file-based persistence
-    const dbPath = join(process.cwd(), 'data', 'algokit-examples-db')
+    const dbPath = getDatabasePath()
     db = await lancedb.connect(dbPath)
     console.log(`✓ Connected to LanceDB at ${dbPath}`)
 
-    // Load embeddings from JSON file
-    const embeddingsPath = join(process.cwd(), 'data', 'embeddings.json')
-    console.log(`Loading embeddings from ${embeddingsPath}...`)
+    // Built apart and swapped in whole, so a failure leaves nothing half-loaded
+    const configs = options.collections ?? loadCollectionConfigs()
+    const loaded = new Map<string, CollectionState>()
+    for (const config of configs) {
+      const state: CollectionState = {
+        config,
+        table: null,
+        tableName: null,
+        contentHash: null,
+        model: null,
+        validationReport: null,
+        lastReload: null,
+        reloadInProgress: null,
+        lock: Promise.resolve()
+      }
+      await loadCollection(db, state, options.rebuild ?? false)
+      loaded.set(config.name, state)
+    }
+    for (const [name, state] of loaded) {
+      collections.set(name, state)
+    }
+    defaultCollection = configs[0].name
 
-    let embeddings: AlgoKitExample[]
-    try {
-      const embeddingsData = readFileSync(embeddingsPath, 'utf-8')
-      embeddings = JSON.parse(embeddingsData)
-    } catch (error) {
+    await refreshSuggestionIndex()
+    const { count } = await getDatabaseStats()
+    console.log(`✓ Database initialized with ${count} examples${
+      configs.length > 1 ? ` in ${configs.length} collections` : ''
+    }`)
+
+  } catch (error) {
+    // Let the next attempt start over
+    collections.clear()
+    defaultCollection = null
+    console.error('Failed to initialize database:', error)
+    throw error
+  }
+}
+
+/**
+ * Reuse or build one collection's table
+ */
+async function loadCollection(
+  connection: lancedb.Connection,
+  state: CollectionState,
+  rebuild: boolean
+): Promise<void> {
+  const { name, source } = state.config
+
+  // Only the file's hash is needed to decide on reuse
+  const contentHash = await hashFile(source.path)
+  const latestName = await findLatestTableName(connection, name)
+
+  let staleReason: string | null
+  if (rebuild) {
+    staleReason = '--rebuild requested'
+  } else if (!latestName) {
+    staleReason = 'no existing table'
+  } else {
+    staleReason = await findStaleReason(await connection.openTable(latestName), source, contentHash)
+  }
+
+  if (latestName && !staleReason) {
+    const table = await connection.openTable(latestName)
+    console.log(`✓ Reusing ${name} table ${latestName} (embeddings ${contentHash.slice(0, 12)}, schema v${EXAMPLES_SCHEMA_VERSION})`)
+
+    const metadata = (await table.schema()).metadata
+    activateTable(
+      state,
+      table,
+      latestName,
+      contentHash,
+      JSON.parse(metadata.get(VALIDATION_REPORT_KEY)!),
+      JSON.parse(metadata.get(EMBEDDING_MODEL_KEY)!)
+    )
+  } else {
+    console.log(`Rebuilding ${name} table: ${staleReason}`)
+    const { table, name: tableName, report, model } = await buildTable(connection, name, source, contentHash)
+    activateTable(state, table, tableName, contentHash, report, model)
+  }
+
+  const mismatch = findModelMismatch(state)
+  if (mismatch) {
+    console.warn(`${mismatch}; semantic queries will be refused until embeddings from the configured model are loaded`)
+  }
+
+  // Nothing is in flight yet, so every other generation can go
+  await dropTablesExcept(connection, name, [state.tableName!])
+}
+
+/**
+ * Rebuild a collection's table from its embeddings file without downtime
+ *
+ * Builds and validates a new table generation, then swaps it in. Requests
+ * that already hold the previous table finish on it; that generation is
+ * dropped once the last of them releases its lease. On failure the previous table keeps serving
+ * and the error is rethrown. Concurrent calls for a collection share one
+ * reload, and writes to it wait for the reload to finish.
+ *
+ * @param options - Set `force` to rebuild even if the file is unchanged,
+ * and `collection` to pick the collection (default: the default collection)
+ * @returns What the reload did
+ * @throws Error if the collection is unknown
+ */
+export function reloadDatabase(options: ReloadOptions = {}): Promise<ReloadResult> {
+  const state = getCollectionState(options.collection)
+  if (!state.reloadInProgress) {
+    state.reloadInProgress = withTableLock(state.config.name, () => runReload(state, options)).finally(() => {
+      state.reloadInProgress = null
+    })
+  }
+  return state.reloadInProgress
+}
+
+async function runReload(state: CollectionState, options: ReloadOptions): Promise<ReloadResult> {
+  const startTime = Date.now()
+  const connection = db
+  const { name: collection, source } = state.config
+
+  try {
+    if (!connection || !state.table) {
+      throw new Error('Database not initialized. Call initializeDatabase() first.')
+    }
+
+    const contentHash = await hashFile(source.path)
+    if (!options.force && contentHash === state.contentHash) {
+      console.log(`Reload skipped: ${basename(source.path)} unchanged`)
+      return {
+        collection,
+        status: 'unchanged',
+        examplesCount: await state.table.countRows(),
+        contentHash,
+        processingTimeMs: Date.now() - startTime
+      }
+    }
+
+    console.log(`Reloading ${collection} table...`)
+    const previousName = state.tableName
+    const { table, name, report, model } = await buildTable(connection, collection, source, contentHash)
+    const examplesCount = await table.countRows()
+
+    // Nothing may fail between the swap and retiring the previous generation;
+    // requests still running on it keep it until they finish
+    activateTable(state, table, name, contentHash, report, model)
+    if (previousName) {
+      retireTable(connection, collection, previousName)
+    }
+
+    // The new table is live either way; stale suggestions do not fail the reload
+    await refreshSuggestionIndex().catch((error) => {
+      console.warn(`Reloaded ${collection}, but failed to refresh suggestions:`, error)
+    })
+
+    state.lastReload = { at: new Date().toISOString(), ok: true }
+    console.log(`✓ Reloaded ${examplesCount} examples into ${name}`)
+
+    return {
+      collection,
+      status: 'reloaded',
+      examplesCount,
+      contentHash,
+      processingTimeMs: Date.now() - startTime
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    state.lastReload = { at: new Date().toISOString(), ok: false, error: message }
+    console.error(`Reload failed, still serving ${state.tableName}:`, error)
+    throw new Error(`Reload failed: ${message}`)
+  }
+}
+
+/**
+ * Drop a replaced generation now, or once its last lease is released
+ */
+function retireTable(connection: lancedb.Connection, collection: string, name: string): void {
+  if (tableLeases.has(name)) {
+    retiredTables.add(name)
+    console.log(`Keeping ${collection} table ${name} until ${tableLeases.get(name)} request(s) finish`)
+    return
+  }
+
+  retiredTables.delete(name)
+  connection.dropTable(name).then(
+    () => console.log(`✓ Dropped old ${collection} table ${name}`),
+    (error) => console.warn(`Failed to drop old ${collection} table ${name}:`, error)
+  )
+}
+
+/**
+ * Run a task that writes to a collection's table once earlier writes and
+ * reloads of that collection have finished
+ *
+ * Keeps writes from landing on a table that a reload is about to replace.
+ *
+ * @throws Error if the collection is unknown
+ */
+export function withTableLock<T>(collection: string, task: () => Promise<T>): Promise<T> {
+  const state = getCollectionState(collection)
+  const run = state.lock.then(task, task)
+  state.lock = run.catch(() => {
+    // Failures are reported to the caller of this task only
+  })
+  return run
+}
+
+/**
+ * Rebuild the in-memory autocomplete index from the rows in every live table
+ *
+ * Call after writing to a table directly.
+ */
+export async function refreshSuggestionIndex(): Promise<void> {
+  const rows: any[] = []
+  for (const name of getCollectionNames()) {
+    rows.push(...await getTable(name)
+      .query()
+      .select(['title', 'feature_tags', 'features_to_demonstrate'])
+      .toArray())
+  }
+  buildSuggestionIndex(rows.map((row: any) => ({
+    ...row,
+    feature_tags: Array.from(row.feature_tags || []),
+    features_to_demonstrate: Array.from(row.features_to_demonstrate || [])
+  })))
+}
+
+/**
+ * Reload a collection whenever its embeddings file is modified
+ *
+ * Polls each file's modification time, which also catches files replaced
+ * by rename. Failed reloads are logged and retried on the next change.
+ *
+ * @param intervalMs - Polling interval (default: 2000)
+ */
+export function watchEmbeddings(intervalMs: number = 2000): void {
+  for (const name of getCollectionNames()) {
+    const embeddingsPath = getCollectionState(name).config.source.path
+
+    watchFile(embeddingsPath, { interval: intervalMs }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) return
+      console.log(`${embeddingsPath} changed, reloading ${name}`)
+      reloadDatabase({ collection: name }).catch(() => {
+        // Already logged and recorded in the reload status
+      })
+    })
+
+    console.log(`✓ Watching ${embeddingsPath} for changes`)
+  }
+}
+
+/**
+ * Read embeddings and build a new, validated table generation
+ *
+ * The file is read twice, one batch at a time: first to validate every
+ * record (so strict mode fails before anything is written, and the report
+ * can be stored with the table), then to write the valid records.
+ * Curated admin edits are applied on top before indexing. The table is
+ * dropped again if any step fails.
+ *
+ * The vectors come from the model the source declares (see `sources.ts`),
+ * which is recorded with the table. Building is refused when that is not
+ * the configured model: the table would be labelled with a model that did
+ * not produce it, hiding the mismatch from `assertQueryModel`.
+ */
+async function buildTable(
+  connection: lancedb.Connection,
+  collection: string,
+  source: EmbeddingsSource,
+  contentHash: string
+): Promise<{ table: Table; name: string; report: ValidationReport; model: EmbeddingModel }> {
+  const fileName = basename(source.path)
+
+  const model = getEmbeddingModel()
+  if (source.model !== model.id) {
+    throw new Error(
+      `${fileName} holds ${source.model} embeddings, but EMBEDDING_MODEL is ${model.id}. ` +
+      `Load embeddings from ${model.id} and declare it as the collection's model, or set EMBEDDING_MODEL back.`
+    )
+  }
+
+  console.log(`Loading embeddings from ${source.path} (${source.format})...`)
+
+  // Check every record up front; LanceDB errors do not say which one is bad
+  const mode = getValidationMode()
+  const validator = createValidator(mode)
+  for await (const records of readRecordBatches(source)) {
+    validator.validate(records)
+  }
+  const report = validator.report()
+
+  if (report.checked === 0) {
+    throw new Error('Embeddings file is empty or invalid')
+  }
+
+  if (report.skipped.length > 0) {
+    const details = formatReport(report).join('\n')
+    if (mode === 'strict') {
       throw new Error(
-        `Failed to read embeddings file: ${error instanceof Error ? error.message : String(error)}`
+        `${report.skipped.length} of ${report.checked} records in ${fileName} are invalid ` +
+        `(set EMBEDDINGS_VALIDATION=lenient to skip them):\n${details}`
       )
     }
+    console.warn(`Skipping ${report.skipped.length} of ${report.checked} invalid records:\n${details}`)
+  }
 
-    if (!Array.isArray(embeddings) || embeddings.length === 0) {
-      throw new Error('Embeddings file is empty or invalid')
-    }
+  if (report.valid === 0) {
+    throw new Error(`${fileName} has no valid records`)
+  }
 
-    console.log(`✓ Loaded ${embeddings.length} examples from embeddings.json`)
+  console.log(`✓ Validated ${report.checked} records from ${fileName} (${mode} validation)`)
 
-    // Create table with overwrite mode and explicit schema
+  const name = `${collection}_${Date.now()}`
+  try {
     // Explicit schema required to handle empty arrays properly
-    examplesTable = await db.createTable('examples', embeddings as any, {
-      mode: 'overwrite',
-      schema: examplesSchema
-    })
+    // The embeddings hash, schema version, validation report and model
+    // identity are stored as schema metadata
+    const table = await connection.createEmptyTable(name, new Schema(createExamplesSchema(model.dimension).fields, new Map([
+      [CONTENT_HASH_KEY, contentHash],
+      [SCHEMA_VERSION_KEY, EXAMPLES_SCHEMA_VERSION],
+      [VALIDATION_REPORT_KEY, JSON.stringify(report)],
+      [EMBEDDING_MODEL_KEY, JSON.stringify(model)]
+    ])), { mode: 'overwrite' })
+
+    // Same validation as the first pass, so exactly the valid records are written
+    const writer = createValidator(mode)
+    for await (const records of readRecordBatches(source)) {
+      const examples = writer.validate(records)
+      if (examples.length === 0) continue
+      await table.add(examples.map((example) => ({
+        ...example,
+        folder_name: example.folder_name ?? null,
+        source_code: example.source_code ?? null
+      })))
+    }
+
+    console.log(`✓ Created ${collection} table ${name} with ${report.valid} examples`)
 
-    console.log('✓ Created examples table in LanceDB')
-    console.log(`✓ Database initialized with ${embeddings.length} examples`)
+    // Admin edits outlive the file they were made against (see `curated.ts`)
+    const curatedChange = await applyCuratedEdits(table, collection, model.id)
 
+    // Scalar index keeps ID lookups from scanning the table
+    await table.createIndex('example_id', { config: lancedb.Index.btree() })
+    console.log('✓ Created scalar index on example_id')
+
+    // Full-text indexes back the keyword and hybrid search modes
+    for (const column of fullTextColumns) {
+      await table.createIndex(column, { config: lancedb.Index.fts() })
+    }
+    console.log(`✓ Created full-text indexes on ${fullTextColumns.join(', ')}`)
+
+    // Large tables get an ANN index; small ones are scanned exactly
+    const vectorIndex = await createVectorIndex(table, report.valid)
+    if (vectorIndex === 'none') {
+      console.log(`✓ Vector search uses a flat scan (${report.valid} rows, index threshold ${getVectorIndexConfig().threshold})`)
+    } else {
+      console.log(`✓ Created ${vectorIndex} vector index`)
+    }
+
+    await validateTable(table, report.valid + curatedChange)
+    return { table, name, report, model }
   } catch (error) {
-    console.error('Failed to initialize database:', error)
+    await connection.dropTable(name).catch(() => {
+      // The table may not have been created
+    })
     throw error
   }
 }
 
 /**
- * Get the examples table for querying
+ * Check a freshly built table before it is served
+ */
+async function validateTable(table: Table, expectedCount: number): Promise<void> {
+  const count = await table.countRows()
+  if (count !== expectedCount) {
+    throw new Error(`Table has ${count} rows, expected ${expectedCount}`)
+  }
+
+  const [probe] = await table.query().select(['title', 'vector']).limit(1).toArray()
+  if (!probe) {
+    throw new Error('Table has no rows')
+  }
+
+  const vector: number[] = Array.from(probe.vector)
+  const [nearest] = await table.search(vector).limit(1).toArray()
+  if (!nearest) {
+    throw new Error('Vector search on the new table returned no rows')
+  }
+
+  const [keywordHit] = await table
+    .query()
+    .fullTextSearch(probe.title, { columns: ['title'] })
+    .limit(1)
+    .toArray()
+  if (!keywordHit) {
+    throw new Error('Full-text search on the new table returned no rows')
+  }
+}
+
+/**
+ * Make a table the one returned by `getTable()` for its collection
+ */
+function activateTable(
+  state: CollectionState,
+  table: Table,
+  name: string,
+  contentHash: string,
+  report: ValidationReport,
+  model: EmbeddingModel
+): void {
+  state.table = table
+  state.tableName = name
+  state.contentHash = contentHash
+  state.validationReport = report
+  state.model = model
+}
+
+/**
+ * Name of a collection's most recently created table generation, if any
+ */
+async function findLatestTableName(
+  connection: lancedb.Connection,
+  collection: string
+): Promise<string | null> {
+  const pattern = tableNamePattern(collection)
+  const generations = (await connection.tableNames())
+    .map((name) => ({ name, match: pattern.exec(name) }))
+    .filter(({ match }) => match)
+    .map(({ name, match }) => ({ name, createdAt: Number(match![1] ?? 0) }))
+    .sort((a, b) => b.createdAt - a.createdAt)
+
+  return generations[0]?.name ?? null
+}
+
+/**
+ * Drop every table generation of a collection not listed in `keep`
+ */
+async function dropTablesExcept(
+  connection: lancedb.Connection,
+  collection: string,
+  keep: string[]
+): Promise<void> {
+  const pattern = tableNamePattern(collection)
+  for (const name of await connection.tableNames()) {
+    if (!pattern.test(name) || keep.includes(name)) continue
+    try {
+      await connection.dropTable(name)
+      console.log(`✓ Dropped old ${collection} table ${name}`)
+    } catch (error) {
+      console.warn(`Failed to drop old ${collection} table ${name}:`, error)
+    }
+  }
+}
+
+/**
+ * Check whether a persisted table can be reused
+ *
+ * @returns Why the table must be rebuilt, or null if it is current
+ */
+async function findStaleReason(
+  table: Table,
+  source: EmbeddingsSource,
+  contentHash: string
+): Promise<string | null> {
+  const metadata = (await table.schema()).metadata
+
+  const storedVersion = metadata.get(SCHEMA_VERSION_KEY)
+  if (storedVersion !== EXAMPLES_SCHEMA_VERSION) {
+    return `schema version changed (${storedVersion ?? 'none'} -> ${EXAMPLES_SCHEMA_VERSION})`
+  }
+  if (metadata.get(CONTENT_HASH_KEY) !== contentHash) {
+    return `${basename(source.path)} changed`
+  }
+
+  // A new declared model relabels the same file
+  const storedModel: EmbeddingModel | undefined = metadata.has(EMBEDDING_MODEL_KEY)
+    ? JSON.parse(metadata.get(EMBEDDING_MODEL_KEY)!)
+    : undefined
+  if (storedModel?.id !== source.model) {
+    return `embeddings model changed (${storedModel?.id ?? 'none'} -> ${source.model})`
+  }
+
+  // The table holds only the records that passed the mode it was built with
+  const storedReport: ValidationReport | undefined = metadata.has(VALIDATION_REPORT_KEY)
+    ? JSON.parse(metadata.get(VALIDATION_REPORT_KEY)!)
+    : undefined
+  const storedMode = storedReport?.mode
+  if (storedMode !== getValidationMode()) {
+    return `validation mode changed (${storedMode ?? 'none'} -> ${getValidationMode()})`
+  }
+
+  // An interrupted build can leave the table without some of its indexes
+  const indexed = new Set((await table.listIndices()).flatMap((index) => index.columns))
+  const missing = ['example_id', ...fullTextColumns].filter((column) => !indexed.has(column))
+  if (missing.length > 0) {
+    return `missing indexes on ${missing.join(', ')}`
+  }
+
+  // Sized by the rows loaded from the file, so admin edits cannot force a rebuild
+  const expectedIndex = expectedVectorIndex(storedReport!.valid)
+  const actualIndex = await findVectorIndex(table)
+  if (actualIndex !== expectedIndex) {
+    return `vector index is ${actualIndex}, expected ${expectedIndex}`
+  }
+
+  return null
+}
+
+/**
+ * Look up a collection's state
+ *
+ * @param collection - Collection name (default: the default collection)
+ * @throws Error if database is not initialized or the collection is unknown
+ */
+function getCollectionState(collection?: string): CollectionState {
+  const name = collection ?? getDefaultCollection()
+  const state = collections.get(name)
+  if (!state) {
+    throw new Error(`Unknown collection '${name}' (expected ${getCollectionNames().join(', ')})`)
+  }
+  return state
+}
+
+/**
+ * Names of the configured collections, the default first
+ */
+export function getCollectionNames(): string[] {
+  return [...collections.keys()]
+}
+
+/**
+ * Collection used when a request does not name one
  *
  * @throws Error if database is not initialized
  */
-export function getTable(): Table {
-  if (!examplesTable) {
+export function getDefaultCollection(): string {
+  if (!defaultCollection) {
     throw new Error('Database not initialized. Call initializeDatabase() first.')
   }
-  return examplesTable
+  return defaultCollection
+}
+
+/**
+ * Get a collection's table for querying
+ *
+ * Callers should fetch the table once per request and keep using that
+ * handle, so a reload mid-request cannot mix two generations. Requests
+ * outside a collection's write lock should hold a lease instead
+ * (`acquireTable` or `withTable`), so the generation is not dropped under
+ * them.
+ *
+ * @param collection - Collection name (default: the default collection)
+ * @throws Error if database is not initialized or the collection is unknown
+ */
+export function getTable(collection?: string): Table {
+  const { table } = getCollectionState(collection)
+  if (!table) {
+    throw new Error('Database not initialized. Call initializeDatabase() first.')
+  }
+  return table
+}
+
+/**
+ * Hold a collection's live table for the length of a request
+ *
+ * Unlike `getTable()`, the generation is kept even if reloads replace it
+ * meanwhile, until `release()` is called. Release every lease, also when
+ * the request fails.
+ *
+ * @param collection - Collection name (default: the default collection)
+ * @throws Error if database is not initialized or the collection is unknown
+ */
+export function acquireTable(collection?: string): TableLease {
+  const state = getCollectionState(collection)
+  const table = getTable(state.config.name)
+  const name = state.tableName!
+  tableLeases.set(name, (tableLeases.get(name) ?? 0) + 1)
+
+  let released = false
+  return {
+    table,
+    release() {
+      if (released) return
+      released = true
+
+      const remaining = tableLeases.get(name)! - 1
+      if (remaining > 0) {
+        tableLeases.set(name, remaining)
+        return
+      }
+      tableLeases.delete(name)
+      if (retiredTables.has(name) && db) {
+        retireTable(db, state.config.name, name)
+      }
+    }
+  }
+}
+
+/**
+ * Run a task on a leased table, releasing the lease when it settles
+ *
+ * @param collection - Collection name (default: the default collection)
+ * @throws Error if database is not initialized or the collection is unknown
+ */
+export async function withTable<T>(
+  collection: string | undefined,
+  task: (table: Table) => Promise<T>
+): Promise<T> {
+  const lease = acquireTable(collection)
+  try {
+    return await task(lease.table)
+  } finally {
+    lease.release()
+  }
 }
 
 /**
  * Check if database is initialized
  */
 export function isInitialized(): boolean {
-  return examplesTable !== null
+  return defaultCollection !== null
+}
+
+/**
+ * Outcome of a collection's most recent reload, or null if none has run
+ *
+ * @throws Error if the collection is unknown
+ */
+export function getReloadStatus(collection?: string): ReloadStatus | null {
+  return isInitialized() ? getCollectionState(collection).lastReload : null
+}
+
+/**
+ * Validation report for the embeddings a collection's live table was built from
+ */
+export function getValidationReport(collection?: string): ValidationReport | null {
+  return isInitialized() ? getCollectionState(collection).validationReport : null
+}
+
+/**
+ * Embedding model that produced a collection's vectors
+ */
+export function getTableModel(collection?: string): EmbeddingModel | null {
+  return isInitialized() ? getCollectionState(collection).model : null
 }
 
 /**
- * Get database statistics
+ * Compare the configured query model with a collection's model
+ *
+ * A table keeps the model its embeddings source declares, so changing
+ * EMBEDDING_MODEL without new embeddings leaves the two apart until
+ * embeddings from the new model are loaded.
+ *
+ * @returns Why query vectors cannot be compared with the stored ones, or
+ * null if the models match (or no table is loaded)
+ */
+export function getModelMismatch(collection?: string): string | null {
+  return isInitialized() ? findModelMismatch(getCollectionState(collection)) : null
+}
+
+function findModelMismatch({ config, model }: CollectionState): string | null {
+  if (!model) {
+    return null
+  }
+
+  const queryModel = getEmbeddingModel()
+  if (queryModel.id === model.id && queryModel.dimension === model.dimension) {
+    return null
+  }
+  return `Query model ${describeModel(queryModel)} does not match the model that produced the ${config.name} vectors, ${describeModel(model)}`
+}
+
+/**
+ * Thrown when a collection's vectors came from another model than the one
+ * queries are embedded with
+ *
+ * The API answers 409: the served embeddings have to change, not the request.
+ */
+export class ModelMismatchError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ModelMismatchError'
+  }
+}
+
+/**
+ * Refuse to embed queries for collections whose vectors came from another model
+ *
+ * Vectors from different models are not comparable, so results would be noise.
+ *
+ * @throws ModelMismatchError for the first mismatched collection
+ */
+export function assertQueryModel(collectionNames: string[]): void {
+  for (const name of collectionNames) {
+    const mismatch = getModelMismatch(name)
+    if (mismatch) {
+      throw new ModelMismatchError(`${mismatch}. Load embeddings from this model and declare it as the collection's model, or set EMBEDDING_MODEL back.`)
+    }
+  }
+}
+
+/**
+ * Get database statistics, totalled across collections
  */
 export async function getDatabaseStats(): Promise<{ count: number }> {
-  if (!examplesTable) {
+  if (collections.size === 0) {
     throw new Error('Database not initialized')
   }
 
-  const count = await examplesTable.countRows()
+  let count = 0
+  for (const name of getCollectionNames()) {
+    count += await withTable(name, (table) => table.countRows())
+  }
   return { count }
-}
\ No newline at end of file
+}
+
+/**
+ * Describe a collection for `GET /api/collections`
+ *
+ * @throws Error if database is not initialized or the collection is unknown
+ */
+export async function getCollectionStats(collection: string): Promise<CollectionStats> {
+  const state = getCollectionState(collection)
+
+  return withTable(collection, async (table) => ({
+    name: state.config.name,
+    ...(state.config.description && { description: state.config.description }),
+    source: { file: basename(state.config.source.path), format: state.config.source.format },
+    examplesCount: await table.countRows(),
+    contentHash: state.contentHash!,
+    tableName: state.tableName!,
+    model: state.model!,
+    vectorIndex: await findVectorIndex(table),
+    validation: state.validationReport!,
+    ...(state.lastReload && { reload: state.lastReload })
+  }))
+}
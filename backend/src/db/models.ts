@@ -29,7 +29,89 @@ export interface AlgoKitExample {
   target_users: string[];
   folder_name?: string;
   source_code?: string;
-  vector: number[]; // 384-dimensional embedding
+  vector: number[]; // Embedding from the configured model
+}
+
+/**
+ * Version of the examples table layout (schema and indexes)
+ *
+ * Bump whenever `examplesSchema` or the indexes created on the table change,
+ * so tables persisted by an older build are rebuilt instead of reused.
+ */
+export const EXAMPLES_SCHEMA_VERSION = "2";
+
+/**
+ * Identity of the model that embeds examples and queries
+ */
+export interface EmbeddingModel {
+  id: string; // Transformers.js model id
+  dimension: number;
+}
+
+/**
+ * Same model as the Python pipeline (sentence-transformers/all-MiniLM-L6-v2)
+ */
+export const DEFAULT_EMBEDDING_MODEL: EmbeddingModel = {
+  id: "Xenova/all-MiniLM-L6-v2",
+  dimension: 384,
+};
+
+/**
+ * Output dimensions of models known to work with Transformers.js, so
+ * EMBEDDING_DIMENSION can be omitted for them
+ */
+const knownModelDimensions: Record<string, number> = {
+  "Xenova/all-MiniLM-L6-v2": 384,
+  "Xenova/all-MiniLM-L12-v2": 384,
+  "Xenova/bge-small-en-v1.5": 384,
+  "Xenova/bge-base-en-v1.5": 768,
+  "Xenova/all-mpnet-base-v2": 768,
+  "jinaai/jina-embeddings-v2-base-code": 768,
+};
+
+let embeddingModel: EmbeddingModel | null = null;
+
+/**
+ * Read the embedding model from EMBEDDING_MODEL and EMBEDDING_DIMENSION
+ *
+ * Defaults to all-MiniLM-L6-v2. The dimension may be omitted for models in
+ * `knownModelDimensions`.
+ *
+ * @throws Error if the dimension is invalid or unknown
+ */
+export function getEmbeddingModel(): EmbeddingModel {
+  if (embeddingModel) {
+    return embeddingModel;
+  }
+
+  const id = process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL.id;
+  const configuredDimension = process.env.EMBEDDING_DIMENSION;
+
+  let dimension: number;
+  if (configuredDimension) {
+    dimension = Number(configuredDimension);
+    if (!Number.isInteger(dimension) || dimension <= 0) {
+      throw new Error(
+        `EMBEDDING_DIMENSION must be a positive integer, got '${configuredDimension}'`
+      );
+    }
+  } else if (knownModelDimensions[id]) {
+    dimension = knownModelDimensions[id];
+  } else {
+    throw new Error(
+      `Unknown vector dimension for embedding model '${id}'; set EMBEDDING_DIMENSION`
+    );
+  }
+
+  embeddingModel = { id, dimension };
+  return embeddingModel;
+}
+
+/**
+ * Format a model identity for logs and errors, e.g. `Xenova/all-MiniLM-L6-v2 (384d)`
+ */
+export function describeModel(model: EmbeddingModel): string {
+  return `${model.id} (${model.dimension}d)`;
 }
 
 /**
@@ -37,18 +119,48 @@ export interface AlgoKitExample {
  *
  * Explicit schema required to handle empty arrays properly.
  * LanceDB cannot infer types from empty arrays.
+ *
+ * @param dimension - Vector dimension of the embedding model
+ */
+export function createExamplesSchema(dimension: number): Schema {
+  return new Schema([
+    new Field("example_id", new Utf8()),
+    new Field("repository", new Utf8()),
+    new Field("title", new Utf8()),
+    new Field("summary", new Utf8()),
+    new Field("complexity", new Utf8()),
+    new Field("language", new Utf8()),
+    new Field("feature_tags", new List(new Field("item", new Utf8()))),
+    new Field("features_to_demonstrate", new List(new Field("item", new Utf8()))),
+    new Field("target_users", new List(new Field("item", new Utf8()))),
+    new Field("folder_name", new Utf8(), true), // nullable
+    new Field("source_code", new Utf8(), true), // nullable
+    new Field("vector", new FixedSizeList(dimension, new Field("item", new Float32()))),
+  ]);
+}
+
+/**
+ * Columns covered by full-text (BM25) indexes for keyword and hybrid search
+ */
+export const fullTextColumns = [
+  "title",
+  "summary",
+  "feature_tags",
+  "source_code",
+];
+
+/**
+ * Upper bound on full-text matches scanned when counting keyword candidates
+ * (totals and facets). Full-text queries always need an explicit limit.
+ */
+export const MAX_KEYWORD_MATCHES = 10000;
+
+/**
+ * Known complexity levels, in ascending order
+ */
+export const complexityLevels = ["simple", "moderate", "complex"];
+
+/**
+ * Known example languages
  */
-export const examplesSchema = new Schema([
-  new Field("example_id", new Utf8()),
-  new Field("repository", new Utf8()),
-  new Field("title", new Utf8()),
-  new Field("summary", new Utf8()),
-  new Field("complexity", new Utf8()),
-  new Field("language", new Utf8()),
-  new Field("feature_tags", new List(new Field("item", new Utf8()))),
-  new Field("features_to_demonstrate", new List(new Field("item", new Utf8()))),
-  new Field("target_users", new List(new Field("item", new Utf8()))),
-  new Field("folder_name", new Utf8(), true), // nullable
-  new Field("source_code", new Utf8(), true), // nullable
-  new Field("vector", new FixedSizeList(384, new Field("item", new Float32()))),
-]);
+export const exampleLanguages = ["typescript", "python"];
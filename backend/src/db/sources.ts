@@ -0,0 +1,260 @@
+/**
+ * Embeddings input formats for backend
+ *
+ * Reads example records from JSON, JSONL, Parquet or Arrow IPC files in
+ * batches. JSONL, Parquet and Arrow IPC are read incrementally, so memory
+ * stays flat however large the file is; a JSON array has to be parsed whole.
+ * Generated embeddings can be written back as JSON or JSONL.
+ */
+
+import { createHash } from 'crypto'
+import { createReadStream } from 'fs'
+import { mkdir, open, readFile, rename, writeFile } from 'fs/promises'
+import { dirname, extname, isAbsolute, join } from 'path'
+import { createInterface } from 'readline'
+import { RecordBatchReader } from 'apache-arrow'
+import { parquetMetadataAsync, parquetReadObjects, type AsyncBuffer } from 'hyparquet'
+import { DEFAULT_EMBEDDING_MODEL } from './models.js'
+
+export type EmbeddingsFormat = 'json' | 'jsonl' | 'parquet' | 'arrow'
+
+export interface EmbeddingsSource {
+  path: string
+  format: EmbeddingsFormat
+  model: string // Model that produced the file's vectors
+}
+
+/**
+ * Number of records handed to validation and LanceDB at a time
+ */
+export const RECORD_BATCH_SIZE = 500
+
+const FORMATS: EmbeddingsFormat[] = ['json', 'jsonl', 'parquet', 'arrow']
+
+/**
+ * Formats `writeEmbeddingsFile` can produce
+ */
+export const WRITABLE_FORMATS: EmbeddingsFormat[] = ['json', 'jsonl']
+
+const EXTENSION_FORMATS: Record<string, EmbeddingsFormat> = {
+  '.json': 'json',
+  '.jsonl': 'jsonl',
+  '.ndjson': 'jsonl',
+  '.parquet': 'parquet',
+  '.arrow': 'arrow',
+  '.arrows': 'arrow',
+  '.ipc': 'arrow',
+  '.feather': 'arrow'
+}
+
+/**
+ * Resolve the embeddings file, its format and the model it came from
+ *
+ * The path defaults to EMBEDDINGS_PATH, then `data/embeddings.json`. The
+ * format defaults to EMBEDDINGS_FORMAT, then the file extension. The model
+ * defaults to SOURCE_EMBEDDING_MODEL, then the default model, which produced the
+ * shipped `data/embeddings.json`. It is never taken from EMBEDDING_MODEL:
+ * the file's vectors do not change when the query model does.
+ *
+ * @param path - File to read, absolute or relative to the working directory
+ * @param format - Explicit format, overriding the extension
+ * @param model - Model id that produced the vectors
+ * @throws Error if the format is unknown or cannot be inferred
+ */
+export function resolveEmbeddingsSource(path?: string, format?: string, model?: string): EmbeddingsSource {
+  const configuredPath = path || process.env.EMBEDDINGS_PATH || join('data', 'embeddings.json')
+  const resolvedPath = isAbsolute(configuredPath)
+    ? configuredPath
+    : join(process.cwd(), configuredPath)
+
+  const resolvedModel = model || process.env.SOURCE_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL.id
+
+  const configuredFormat = format || process.env.EMBEDDINGS_FORMAT
+  if (configuredFormat) {
+    if (!FORMATS.includes(configuredFormat as EmbeddingsFormat)) {
+      throw new Error(`Unknown embeddings format '${configuredFormat}' (expected ${FORMATS.join(', ')})`)
+    }
+    return { path: resolvedPath, format: configuredFormat as EmbeddingsFormat, model: resolvedModel }
+  }
+
+  const inferred = EXTENSION_FORMATS[extname(resolvedPath).toLowerCase()]
+  if (!inferred) {
+    throw new Error(
+      `Cannot infer embeddings format from '${resolvedPath}'; set EMBEDDINGS_FORMAT to one of ${FORMATS.join(', ')}`
+    )
+  }
+  return { path: resolvedPath, format: inferred, model: resolvedModel }
+}
+
+/**
+ * SHA-256 of a file's contents, read as a stream
+ */
+export async function hashFile(path: string): Promise<string> {
+  const hash = createHash('sha256')
+  try {
+    for await (const chunk of createReadStream(path)) {
+      hash.update(chunk)
+    }
+  } catch (error) {
+    throw new Error(
+      `Failed to read embeddings file: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+  return hash.digest('hex')
+}
+
+/**
+ * Read records from an embeddings file in batches
+ *
+ * Records are plain objects with list columns as arrays, ready for
+ * validation against `examplesSchema`.
+ *
+ * @param source - File and format to read
+ * @param batchSize - Records per batch (default: 500)
+ */
+export async function* readRecordBatches(
+  source: EmbeddingsSource,
+  batchSize: number = RECORD_BATCH_SIZE
+): AsyncGenerator<unknown[]> {
+  switch (source.format) {
+    case 'json':
+      yield* readJsonBatches(source.path, batchSize)
+      break
+    case 'jsonl':
+      yield* readJsonLinesBatches(source.path, batchSize)
+      break
+    case 'parquet':
+      yield* readParquetBatches(source.path, batchSize)
+      break
+    case 'arrow':
+      yield* readArrowBatches(source.path)
+      break
+  }
+}
+
+/**
+ * Write records to an embeddings file
+ *
+ * The file is written next to its destination and renamed into place, so
+ * a reload or watcher never sees it half-written.
+ *
+ * @param records - Records in `examplesSchema` layout
+ * @param source - Destination file and format (JSON or JSONL)
+ * @throws Error for formats that cannot be written
+ */
+export async function writeEmbeddingsFile(
+  records: object[],
+  source: EmbeddingsSource
+): Promise<void> {
+  if (!WRITABLE_FORMATS.includes(source.format)) {
+    throw new Error(
+      `Writing ${source.format} embeddings files is not supported (use ${WRITABLE_FORMATS.join(' or ')})`
+    )
+  }
+
+  const contents = source.format === 'json'
+    ? JSON.stringify(records, null, 2)
+    : records.map((record) => JSON.stringify(record)).join('\n') + '\n'
+
+  const tempPath = `${source.path}.tmp-${process.pid}`
+  await mkdir(dirname(source.path), { recursive: true })
+  await writeFile(tempPath, contents, 'utf-8')
+  await rename(tempPath, source.path)
+}
+
+async function* readJsonBatches(path: string, batchSize: number): AsyncGenerator<unknown[]> {
+  let records: unknown
+  try {
+    records = JSON.parse(await readFile(path, 'utf-8'))
+  } catch (error) {
+    throw new Error(
+      `Failed to parse embeddings file: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  if (!Array.isArray(records)) {
+    throw new Error('Embeddings file is empty or invalid')
+  }
+
+  for (let start = 0; start < records.length; start += batchSize) {
+    yield records.slice(start, start + batchSize)
+  }
+}
+
+async function* readJsonLinesBatches(path: string, batchSize: number): AsyncGenerator<unknown[]> {
+  const lines = createInterface({ input: createReadStream(path), crlfDelay: Infinity })
+  let batch: unknown[] = []
+  let lineNumber = 0
+
+  for await (const line of lines) {
+    lineNumber++
+    if (!line.trim()) continue
+
+    try {
+      batch.push(JSON.parse(line))
+    } catch (error) {
+      throw new Error(
+        `Failed to parse embeddings file at line ${lineNumber}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+
+    if (batch.length >= batchSize) {
+      yield batch
+      batch = []
+    }
+  }
+
+  if (batch.length > 0) {
+    yield batch
+  }
+}
+
+async function* readParquetBatches(path: string, batchSize: number): AsyncGenerator<unknown[]> {
+  // Byte ranges are read on demand, so only the batch being decoded is in memory
+  const handle = await open(path)
+  try {
+    const byteLength = (await handle.stat()).size
+    const file: AsyncBuffer = {
+      byteLength,
+      async slice(start, end = byteLength) {
+        const buffer = Buffer.alloc(end - start)
+        await handle.read(buffer, 0, buffer.length, start)
+        return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length)
+      }
+    }
+
+    const metadata = await parquetMetadataAsync(file)
+    const rowCount = Number(metadata.num_rows)
+
+    for (let rowStart = 0; rowStart < rowCount; rowStart += batchSize) {
+      const rowEnd = Math.min(rowStart + batchSize, rowCount)
+      yield await parquetReadObjects({ file, metadata, rowStart, rowEnd })
+    }
+  } finally {
+    await handle.close()
+  }
+}
+
+async function* readArrowBatches(path: string): AsyncGenerator<unknown[]> {
+  // Handles both the IPC file and stream formats
+  const reader = await RecordBatchReader.from(createReadStream(path))
+
+  for await (const batch of reader) {
+    yield batch.toArray().map((row) => toPlainValue(row.toJSON()))
+  }
+}
+
+/**
+ * Convert Arrow values (vectors, typed arrays, nested rows) to plain JS
+ */
+function toPlainValue(value: any): any {
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+  if (typeof value[Symbol.iterator] === 'function') {
+    return Array.from(value, toPlainValue)
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, toPlainValue(item)])
+  )
+}
@@ -0,0 +1,168 @@
+/**
+ * Embeddings file validation for backend
+ *
+ * Checks every record before it reaches LanceDB, so a bad record is
+ * reported by index and ID instead of surfacing as an opaque Arrow error.
+ */
+
+import { Value } from '@sinclair/typebox/value'
+import { AlgoKitExampleSchema } from '../schemas/search.js'
+import {
+  createExamplesSchema,
+  complexityLevels,
+  exampleLanguages,
+  getEmbeddingModel,
+  type AlgoKitExample
+} from './models.js'
+
+/**
+ * strict: refuse to load a file with any invalid record
+ * lenient: skip invalid records and load the rest
+ */
+export type ValidationMode = 'strict' | 'lenient'
+
+export interface RecordIssues {
+  index: number // Position in the file
+  example_id: string | null
+  issues: string[]
+}
+
+export interface ValidationReport {
+  mode: ValidationMode
+  checked: number
+  valid: number
+  skipped: RecordIssues[]
+}
+
+/**
+ * Allowed deviation of a vector's L2 norm from 1
+ */
+const NORM_TOLERANCE = 1e-3
+
+/**
+ * Read the validation mode from EMBEDDINGS_VALIDATION (default: strict)
+ */
+export function getValidationMode(): ValidationMode {
+  return process.env.EMBEDDINGS_VALIDATION === 'lenient' ? 'lenient' : 'strict'
+}
+
+/**
+ * Problems with a single record (empty if it is valid)
+ */
+function checkRecord(record: any, dimension: number, nullableColumns: string[]): string[] {
+  if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+    return ['record is not an object']
+  }
+
+  // Nullable columns may be null in the file; the API schema treats them as absent
+  const candidate = { ...record }
+  for (const column of nullableColumns) {
+    if (candidate[column] === null) delete candidate[column]
+  }
+
+  const issues = [...Value.Errors(AlgoKitExampleSchema, candidate)].map(
+    (error) => `${error.path || '/'}: ${error.message}`
+  )
+
+  if (typeof record.complexity === 'string' && !complexityLevels.includes(record.complexity)) {
+    issues.push(`unknown complexity '${record.complexity}' (expected ${complexityLevels.join(', ')})`)
+  }
+  if (typeof record.language === 'string' && !exampleLanguages.includes(record.language)) {
+    issues.push(`unknown language '${record.language}' (expected ${exampleLanguages.join(', ')})`)
+  }
+
+  if (Array.isArray(record.vector)) {
+    if (record.vector.length !== dimension) {
+      issues.push(`vector has ${record.vector.length} dimensions, expected ${dimension}`)
+    } else if (record.vector.some((value: unknown) => typeof value !== 'number' || !Number.isFinite(value))) {
+      issues.push('vector contains NaN or non-finite values')
+    } else {
+      const norm = Math.sqrt(record.vector.reduce((sum: number, v: number) => sum + v * v, 0))
+      if (Math.abs(norm - 1) > NORM_TOLERANCE) {
+        issues.push(`vector is not L2-normalised (norm ${norm.toFixed(4)})`)
+      }
+    }
+  }
+
+  return issues
+}
+
+export interface EmbeddingsValidator {
+  /**
+   * Validate the next batch of records
+   *
+   * @returns The valid examples in the batch
+   */
+  validate(records: unknown[]): AlgoKitExample[]
+  /**
+   * Report covering every record validated so far
+   */
+  report(): ValidationReport
+}
+
+/**
+ * Create a validator for the records of one embeddings file
+ *
+ * Checks each record against `AlgoKitExampleSchema`, the vector dimension
+ * of the configured embedding model, known complexity and language values, finite and
+ * normalised vectors, and duplicate IDs (every occurrence after the first
+ * is invalid). Records may arrive in several batches; positions in the
+ * report count across all of them.
+ *
+ * @param mode - Validation mode recorded in the report
+ */
+export function createValidator(mode: ValidationMode): EmbeddingsValidator {
+  const { dimension } = getEmbeddingModel()
+  // Columns that may hold null, read from the Arrow schema
+  const nullableColumns = createExamplesSchema(dimension).fields
+    .filter((field) => field.nullable)
+    .map((field) => field.name)
+  const seenIds = new Map<string, number>()
+  const skipped: RecordIssues[] = []
+  let checked = 0
+  let valid = 0
+
+  return {
+    validate(records) {
+      const examples: AlgoKitExample[] = []
+
+      for (const record of records as any[]) {
+        const index = checked++
+        const issues = checkRecord(record, dimension, nullableColumns)
+        const exampleId = typeof record?.example_id === 'string' ? record.example_id : null
+
+        if (exampleId !== null) {
+          const firstIndex = seenIds.get(exampleId)
+          if (firstIndex !== undefined) {
+            issues.push(`duplicate example_id (first seen at record ${firstIndex})`)
+          } else {
+            seenIds.set(exampleId, index)
+          }
+        }
+
+        if (issues.length > 0) {
+          skipped.push({ index, example_id: exampleId, issues })
+        } else {
+          valid++
+          examples.push(record)
+        }
+      }
+
+      return examples
+    },
+
+    report() {
+      return { mode, checked, valid, skipped: [...skipped] }
+    }
+  }
+}
+
+/**
+ * Render a report as log lines, one per invalid record
+ */
+export function formatReport(report: ValidationReport): string[] {
+  return report.skipped.map(
+    ({ index, example_id, issues }) =>
+      `  record ${index} (${example_id ?? 'no example_id'}): ${issues.join('; ')}`
+  )
+}
@@ -0,0 +1,106 @@
+/**
+ * Vector (ANN) index management for backend
+ *
+ * Small tables are searched with an exact flat scan. Once a table reaches
+ * the configured row count, an approximate nearest neighbour index is
+ * built on the vector column so queries stay fast on large corpora.
+ *
+ * Configuration:
+ * - VECTOR_INDEX: `ivf_pq` (default), `hnsw_sq` or `none`
+ * - VECTOR_INDEX_THRESHOLD: rows needed before an index is built
+ *   (default: 10000, never below 256)
+ */
+
+import * as lancedb from '@lancedb/lancedb'
+import type { Table } from '@lancedb/lancedb'
+
+export type VectorIndexType = 'ivf_pq' | 'hnsw_sq' | 'none'
+
+export interface VectorIndexConfig {
+  type: VectorIndexType
+  threshold: number
+}
+
+export const VECTOR_COLUMN = 'vector'
+
+const INDEX_TYPES: VectorIndexType[] = ['ivf_pq', 'hnsw_sq', 'none']
+
+const DEFAULT_THRESHOLD = 10000
+
+/**
+ * Fewest rows LanceDB can train a quantized index on
+ */
+const MIN_INDEX_ROWS = 256
+
+/**
+ * LanceDB's name for each index type, as reported by `listIndices()`
+ */
+const LANCE_INDEX_TYPES: Record<Exclude<VectorIndexType, 'none'>, string> = {
+  ivf_pq: 'IvfPq',
+  hnsw_sq: 'IvfHnswSq'
+}
+
+/**
+ * Read the vector index settings from VECTOR_INDEX and VECTOR_INDEX_THRESHOLD
+ *
+ * @throws Error if either setting is invalid
+ */
+export function getVectorIndexConfig(): VectorIndexConfig {
+  const type = (process.env.VECTOR_INDEX || 'ivf_pq') as VectorIndexType
+  if (!INDEX_TYPES.includes(type)) {
+    throw new Error(`Unknown VECTOR_INDEX '${type}' (expected ${INDEX_TYPES.join(', ')})`)
+  }
+
+  const configuredThreshold = process.env.VECTOR_INDEX_THRESHOLD
+  const threshold = configuredThreshold ? Number(configuredThreshold) : DEFAULT_THRESHOLD
+  if (!Number.isInteger(threshold) || threshold < 0) {
+    throw new Error(`VECTOR_INDEX_THRESHOLD must be a non-negative integer, got '${configuredThreshold}'`)
+  }
+
+  return { type, threshold: Math.max(threshold, MIN_INDEX_ROWS) }
+}
+
+/**
+ * Index type a table with this many rows should have
+ */
+export function expectedVectorIndex(rowCount: number): VectorIndexType {
+  const { type, threshold } = getVectorIndexConfig()
+  return rowCount >= threshold ? type : 'none'
+}
+
+/**
+ * Index type currently on a table's vector column
+ *
+ * @returns The type, 'none' if unindexed, or LanceDB's own name for an
+ * index this module does not create
+ */
+export async function findVectorIndex(table: Table): Promise<string> {
+  const index = (await table.listIndices()).find((i) => i.columns.includes(VECTOR_COLUMN))
+  if (!index) {
+    return 'none'
+  }
+
+  const known = Object.entries(LANCE_INDEX_TYPES).find(([, name]) => name === index.indexType)
+  return known ? known[0] : index.indexType
+}
+
+/**
+ * Build the configured vector index if the table is large enough
+ *
+ * The index uses L2 distance, like the searches in `search.ts`.
+ *
+ * @returns The index type built ('none' below the threshold)
+ */
+export async function createVectorIndex(table: Table, rowCount: number): Promise<VectorIndexType> {
+  const type = expectedVectorIndex(rowCount)
+  if (type === 'none') {
+    return type
+  }
+
+  const config = type === 'ivf_pq'
+    ? lancedb.Index.ivfPq({ distanceType: 'l2' })
+    : lancedb.Index.hnswSq({ distanceType: 'l2' })
+  await table.createIndex(VECTOR_COLUMN, { config })
+
+  return type
+}
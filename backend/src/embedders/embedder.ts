@@ -0,0 +1,69 @@
+/**
+ * Embedding provider interface for backend
+ *
+ * An embedder turns text into vectors for the configured embedding model.
+ * Providers:
+ * - `transformers`: Transformers.js, in a worker thread pool (see `pool.ts`)
+ *   or in process (see `transformers.ts`)
+ * - `http`: an OpenAI-compatible or Ollama embeddings endpoint (see `http.ts`)
+ * - `fake`: deterministic token hashing, for offline tests (see `fake.ts`)
+ *
+ * `services/embedder.ts` holds the active provider and checks its output.
+ */
+
+export type EmbedderProvider = 'transformers' | 'http' | 'fake'
+
+export const EMBEDDER_PROVIDERS: EmbedderProvider[] = ['transformers', 'http', 'fake']
+
+export interface Embedder {
+  provider: EmbedderProvider
+
+  /**
+   * Load the model or check the endpoint; called once before `embed`
+   */
+  initialize(): Promise<void>
+
+  /**
+   * Embed several texts in one call
+   *
+   * @returns One L2-normalised vector per text, in order
+   */
+  embed(texts: string[]): Promise<number[][]>
+
+  /**
+   * Requests waiting and running, for embedders that queue them
+   */
+  getQueueStats?(): EmbedderQueueStats
+}
+
+export interface EmbedderQueueStats {
+  workers: number // Workers ready to embed
+  busy: number // Workers embedding a request
+  queued: number // Requests waiting for a worker
+  queueSize: number // Most requests allowed to wait
+  rejected: number // Requests refused because the queue was full
+  timedOut: number // Requests that did not finish within the timeout
+}
+
+/**
+ * Thrown when an embedder cannot take on more work for now
+ *
+ * The API answers 503 with a Retry-After header of `retryAfterSeconds`.
+ */
+export class EmbedderBusyError extends Error {
+  constructor(message: string, readonly retryAfterSeconds: number) {
+    super(message)
+    this.name = 'EmbedderBusyError'
+  }
+}
+
+/**
+ * Scale a vector to unit length (zero vectors are returned as is)
+ *
+ * Stored vectors are normalised, so query vectors must be too for the
+ * L2 distances to map onto similarity percentages.
+ */
+export function l2Normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0))
+  return norm > 0 ? vector.map((v) => v / norm) : vector
+}
@@ -0,0 +1,38 @@
+/**
+ * Deterministic fake embedder
+ *
+ * Hashes each lowercase word to a dimension and sign (feature hashing), so
+ * the same text always gets the same vector and texts sharing words are
+ * close. Needs no model or network, which makes it suitable for route
+ * tests; the vectors mean nothing next to a real model's.
+ */
+
+import { createHash } from 'crypto'
+import { l2Normalize, type Embedder } from './embedder.js'
+
+/**
+ * @param dimension - Length of the vectors to produce
+ */
+export function createFakeEmbedder(dimension: number): Embedder {
+  return {
+    provider: 'fake',
+    async initialize() {
+      console.log(`✓ Fake embedder ready (${dimension} dimensions, not semantic)`)
+    },
+    async embed(texts) {
+      return texts.map((text) => hashEmbedding(text, dimension))
+    }
+  }
+}
+
+function hashEmbedding(text: string, dimension: number): number[] {
+  const vector: number[] = new Array(dimension).fill(0)
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [text]
+
+  for (const token of tokens) {
+    const digest = createHash('sha256').update(token).digest()
+    vector[digest.readUInt32BE(0) % dimension] += digest[4] & 1 ? 1 : -1
+  }
+
+  return l2Normalize(vector)
+}
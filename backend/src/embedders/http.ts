@@ -0,0 +1,72 @@
+/**
+ * HTTP embeddings endpoint embedder
+ *
+ * Posts `{ model, input: [...] }` to an embeddings endpoint and accepts
+ * either response shape:
+ * - OpenAI-compatible (`/v1/embeddings`): `{ data: [{ index, embedding }] }`
+ * - Ollama (`/api/embed`): `{ embeddings: [[...]] }`
+ *
+ * The model id sent is EMBEDDING_MODEL, so it must be the name the server
+ * knows the model by. Returned vectors are L2-normalised here, as not every
+ * server does so.
+ */
+
+import type { EmbeddingModel } from '../db/models.js'
+import { l2Normalize, type Embedder } from './embedder.js'
+
+export interface HttpEmbedderOptions {
+  url: string
+  model: EmbeddingModel
+  apiKey?: string // Sent as a bearer token
+  timeoutMs: number
+}
+
+export function createHttpEmbedder(options: HttpEmbedderOptions): Embedder {
+  const { url, model, apiKey, timeoutMs } = options
+
+  async function embed(texts: string[]): Promise<number[][]> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(apiKey && { authorization: `Bearer ${apiKey}` })
+      },
+      body: JSON.stringify({ model: model.id, input: texts }),
+      signal: AbortSignal.timeout(timeoutMs)
+    })
+
+    if (!response.ok) {
+      const detail = (await response.text()).slice(0, 200)
+      throw new Error(`${url} returned ${response.status}${detail ? `: ${detail}` : ''}`)
+    }
+
+    const vectors = parseEmbeddings(await response.json())
+    if (vectors.length !== texts.length) {
+      throw new Error(`${url} returned ${vectors.length} embeddings for ${texts.length} texts`)
+    }
+    return vectors.map((vector) => l2Normalize(vector))
+  }
+
+  return {
+    provider: 'http',
+    async initialize() {
+      // One probe, so a wrong URL or model name fails startup instead of the first search
+      console.log(`Checking embeddings endpoint ${url} (model ${model.id})...`)
+      await embed(['algorand'])
+      console.log('✓ Embeddings endpoint ready')
+    },
+    embed
+  }
+}
+
+function parseEmbeddings(body: any): number[][] {
+  if (Array.isArray(body?.data)) {
+    return [...body.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding)
+  }
+  if (Array.isArray(body?.embeddings)) {
+    return body.embeddings
+  }
+  throw new Error('Unrecognised embeddings response (expected OpenAI `data` or Ollama `embeddings`)')
+}
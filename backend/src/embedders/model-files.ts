@@ -0,0 +1,131 @@
+/**
+ * Vendored model files for offline loading
+ *
+ * With EMBEDDING_MODEL_DIR set, the Transformers.js model is loaded only
+ * from `<dir>/<model id>/`, never downloaded. That directory holds the
+ * files Transformers.js needs plus `manifest.json`, which records each
+ * file's SHA-256:
+ *
+ * ```json
+ * {
+ *   "model": "Xenova/all-MiniLM-L6-v2",
+ *   "files": { "config.json": "9f86d0...", "onnx/model_quantized.onnx": "2c26b4..." }
+ * }
+ * ```
+ *
+ * `npm run prepare-model` downloads the files and writes the manifest
+ * (see `prepare-model.ts`). The files are checked against it before every
+ * load, so a missing or corrupted file stops startup with a clear error.
+ */
+
+import { createHash } from 'crypto'
+import { createReadStream, existsSync } from 'fs'
+import { readdir, readFile, writeFile } from 'fs/promises'
+import { join, relative, sep } from 'path'
+import type { EmbeddingModel } from '../db/models.js'
+
+export interface ModelManifest {
+  model: string
+  files: Record<string, string> // Path within the model directory -> SHA-256
+}
+
+export const MANIFEST_FILE = 'manifest.json'
+
+const PREPARE_HINT = 'Run `npm run prepare-model` (or `node dist/prepare-model.js`) with the same EMBEDDING_MODEL and EMBEDDING_MODEL_DIR to vendor it'
+
+/**
+ * Directory holding one model's files
+ */
+export function modelDirectory(dir: string, model: EmbeddingModel): string {
+  return join(dir, ...model.id.split('/'))
+}
+
+async function hashModelFile(path: string): Promise<string> {
+  const hash = createHash('sha256')
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk)
+  }
+  return hash.digest('hex')
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { recursive: true, withFileTypes: true })
+  return entries
+    .filter((entry) => entry.isFile())
+    .map((entry) => relative(dir, join(entry.parentPath, entry.name)).split(sep).join('/'))
+    .filter((file) => file !== MANIFEST_FILE)
+    .sort()
+}
+
+/**
+ * Hash every file in a model's directory and write its manifest
+ *
+ * @param dir - Models directory (EMBEDDING_MODEL_DIR)
+ * @param model - Model whose files were downloaded into it
+ * @throws Error if the directory holds no files
+ */
+export async function writeModelManifest(dir: string, model: EmbeddingModel): Promise<ModelManifest> {
+  const modelDir = modelDirectory(dir, model)
+  const files = existsSync(modelDir) ? await listFiles(modelDir) : []
+  if (files.length === 0) {
+    throw new Error(`No model files found in ${modelDir}`)
+  }
+
+  const manifest: ModelManifest = { model: model.id, files: {} }
+  for (const file of files) {
+    manifest.files[file] = await hashModelFile(join(modelDir, file))
+  }
+
+  await writeFile(join(modelDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2) + '\n', 'utf-8')
+  return manifest
+}
+
+/**
+ * Check a vendored model against its manifest
+ *
+ * @param dir - Models directory (EMBEDDING_MODEL_DIR)
+ * @param model - Model about to be loaded
+ * @throws Error naming the missing or mismatched files
+ */
+export async function verifyModelFiles(dir: string, model: EmbeddingModel): Promise<void> {
+  const modelDir = modelDirectory(dir, model)
+  const manifestPath = join(modelDir, MANIFEST_FILE)
+  if (!existsSync(manifestPath)) {
+    throw new Error(`Model ${model.id} is not vendored: ${manifestPath} not found. ${PREPARE_HINT}`)
+  }
+
+  let manifest: ModelManifest
+  try {
+    manifest = JSON.parse(await readFile(manifestPath, 'utf-8'))
+  } catch (error) {
+    throw new Error(
+      `Failed to parse model manifest ${manifestPath}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+  if (manifest.model !== model.id) {
+    throw new Error(`Model manifest ${manifestPath} is for ${manifest.model}, expected ${model.id}. ${PREPARE_HINT}`)
+  }
+
+  const files = Object.entries(manifest.files ?? {})
+  if (files.length === 0) {
+    throw new Error(`Model manifest ${manifestPath} lists no files. ${PREPARE_HINT}`)
+  }
+
+  const missing: string[] = []
+  const mismatched: string[] = []
+  for (const [file, expected] of files) {
+    const path = join(modelDir, file)
+    if (!existsSync(path)) {
+      missing.push(file)
+    } else if (await hashModelFile(path) !== expected) {
+      mismatched.push(file)
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new Error(`Model files missing from ${modelDir}: ${missing.join(', ')}. ${PREPARE_HINT}`)
+  }
+  if (mismatched.length > 0) {
+    throw new Error(`Model files do not match their checksums in ${manifestPath}: ${mismatched.join(', ')}. ${PREPARE_HINT}`)
+  }
+}
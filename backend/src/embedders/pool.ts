@@ -0,0 +1,222 @@
+/**
+ * Worker thread pool for the Transformers.js embedder
+ *
+ * ONNX inference is CPU-bound, so running it on the event loop stalls
+ * every other request during a burst of searches. The pool runs the model
+ * in `worker_threads` instead (see `worker.ts`), one copy per worker, and
+ * queues requests while every worker is busy.
+ *
+ * The queue is bounded: once it is full, `embed` fails straight away with
+ * an `EmbedderBusyError` rather than letting latency grow without limit.
+ * A request that does not finish within the timeout fails the same way. If
+ * it was already running, its worker is replaced, since inference cannot
+ * be interrupted.
+ */
+
+import { extname } from 'path'
+import { fileURLToPath } from 'url'
+import { Worker } from 'worker_threads'
+import { describeModel, type EmbeddingModel } from '../db/models.js'
+import { EmbedderBusyError, type Embedder, type EmbedderQueueStats } from './embedder.js'
+import type { WorkerMessage } from './worker.js'
+
+export interface EmbedderPoolOptions {
+  size: number // Worker threads
+  queueSize: number // Most requests waiting for a worker
+  timeoutMs: number // Time allowed per request, queueing included
+  modelDir?: string // Vendored models to load offline from
+  workerUrl?: URL // Worker script (default: worker.ts); tests swap in a stub
+}
+
+interface Task {
+  texts: string[]
+  resolve: (vectors: number[][]) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+  startedAt?: number
+}
+
+interface PoolWorker {
+  worker: Worker
+  task: Task | null
+}
+
+/**
+ * `worker.ts` under tsx, `worker.js` once compiled
+ */
+const WORKER_URL = new URL(`./worker${extname(fileURLToPath(import.meta.url))}`, import.meta.url)
+
+/**
+ * Weight of the latest request in the running average duration
+ */
+const DURATION_SMOOTHING = 0.2
+
+function spawnWorker(url: URL, model: EmbeddingModel, modelDir?: string): Worker {
+  const workerData = { model, modelDir }
+  if (extname(url.pathname) !== '.ts') {
+    return new Worker(url, { workerData })
+  }
+
+  // Worker threads do not inherit tsx's loader (npm run dev), so register it first
+  return new Worker(
+    `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(url.href)}) })`,
+    { eval: true, workerData }
+  )
+}
+
+/**
+ * @param model - Transformers.js model each worker loads
+ * @param options - Pool size, queue bound, request timeout and models directory
+ */
+export function createPooledEmbedder(model: EmbeddingModel, options: EmbedderPoolOptions): Embedder {
+  const workers: PoolWorker[] = []
+  const queue: Task[] = []
+  let averageMs = 0
+  let rejected = 0
+  let timedOut = 0
+
+  /**
+   * Seconds until the queue ahead of a new request should have drained
+   */
+  const retryAfter = () =>
+    Math.max(1, Math.ceil(((queue.length + 1) * averageMs) / Math.max(1, workers.length) / 1000))
+
+  const dispatch = () => {
+    for (const slot of workers) {
+      if (queue.length === 0) return
+      if (!slot.task) {
+        const task = queue.shift()!
+        slot.task = task
+        task.startedAt = performance.now()
+        slot.worker.postMessage(task.texts)
+      }
+    }
+  }
+
+  const replace = () => {
+    startWorker().catch((error) => {
+      console.error('Failed to replace embedding worker:', error)
+    })
+  }
+
+  const startWorker = () => new Promise<void>((resolve, reject) => {
+    const worker = spawnWorker(options.workerUrl ?? WORKER_URL, model, options.modelDir)
+    const slot: PoolWorker = { worker, task: null }
+    let ready = false
+
+    worker.on('message', (message: WorkerMessage) => {
+      if (message.type === 'ready') {
+        ready = true
+        // Idle workers must not keep the process alive. Unref only now:
+        // adding a 'message' listener refs the worker again, and a
+        // starting worker should hold the process until it is ready.
+        worker.unref()
+        workers.push(slot)
+        resolve()
+        dispatch()
+        return
+      }
+
+      const task = slot.task
+      slot.task = null
+      if (task) {
+        clearTimeout(task.timer)
+        const durationMs = performance.now() - (task.startedAt ?? 0)
+        averageMs = averageMs ? averageMs + DURATION_SMOOTHING * (durationMs - averageMs) : durationMs
+        if (message.type === 'result') {
+          task.resolve(message.vectors)
+        } else {
+          task.reject(new Error(message.message))
+        }
+      }
+      dispatch()
+    })
+
+    worker.on('error', (error) => {
+      if (!ready) {
+        reject(error)
+        return
+      }
+      console.error('Embedding worker failed:', error)
+    })
+
+    worker.on('exit', (code) => {
+      const index = workers.indexOf(slot)
+      if (index >= 0) {
+        workers.splice(index, 1)
+      }
+      if (!ready) {
+        // Settles the startup promise unless 'error' already did
+        reject(new Error(`Embedding worker exited during startup (code ${code})`))
+        return
+      }
+
+      if (slot.task) {
+        clearTimeout(slot.task.timer)
+        slot.task.reject(new Error(`Embedding worker exited (code ${code})`))
+        slot.task = null
+      }
+      replace()
+    })
+  })
+
+  return {
+    provider: 'transformers',
+    async initialize() {
+      console.log(`Starting ${options.size} embedding worker(s) for ${describeModel(model)}...`)
+
+      // The first worker downloads the model; the others then load it from the cache
+      await startWorker()
+      await Promise.all(Array.from({ length: options.size - 1 }, startWorker))
+
+      console.log(`✓ ${workers.length} embedding worker(s) ready (queue: ${options.queueSize})`)
+    },
+    async embed(texts) {
+      const idle = workers.some((slot) => !slot.task)
+      if (!idle && queue.length >= options.queueSize) {
+        rejected++
+        throw new EmbedderBusyError(
+          `Embedding queue is full (${queue.length} requests waiting)`,
+          retryAfter()
+        )
+      }
+
+      return new Promise<number[][]>((resolve, reject) => {
+        const task: Task = {
+          texts,
+          resolve,
+          reject,
+          timer: setTimeout(() => {
+            timedOut++
+            const queuedAt = queue.indexOf(task)
+            if (queuedAt >= 0) {
+              queue.splice(queuedAt, 1)
+            } else {
+              const slot = workers.find((w) => w.task === task)
+              if (slot) {
+                // Take it out of rotation now; its exit starts a replacement
+                workers.splice(workers.indexOf(slot), 1)
+                slot.task = null
+                slot.worker.terminate()
+              }
+            }
+            reject(new EmbedderBusyError(`Embedding timed out after ${options.timeoutMs}ms`, retryAfter()))
+          }, options.timeoutMs)
+        }
+
+        queue.push(task)
+        dispatch()
+      })
+    },
+    getQueueStats(): EmbedderQueueStats {
+      return {
+        workers: workers.length,
+        busy: workers.filter((slot) => slot.task).length,
+        queued: queue.length,
+        queueSize: options.queueSize,
+        rejected,
+        timedOut
+      }
+    }
+  }
+}
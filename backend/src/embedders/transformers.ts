@@ -0,0 +1,80 @@
+/**
+ * Transformers.js embedder
+ *
+ * Runs the embedding model in process, with the same mean pooling and L2
+ * normalisation as the Python pipeline. The model is downloaded to
+ * `./.cache` on first use, or, given a models directory, loaded from there
+ * only, after checking its files (see `model-files.ts`).
+ *
+ * Transformers.js (and its native dependencies) is only imported when this
+ * provider is initialized, so the other providers work without it.
+ */
+
+import { describeModel, type EmbeddingModel } from '../db/models.js'
+import type { Embedder } from './embedder.js'
+import { verifyModelFiles } from './model-files.js'
+
+/**
+ * @param model - Transformers.js model to load
+ * @param modelDir - Directory of vendored models to load offline from
+ */
+export function createTransformersEmbedder(model: EmbeddingModel, modelDir?: string): Embedder {
+  let extractor: any = null
+
+  return {
+    provider: 'transformers',
+    async initialize() {
+      if (modelDir) {
+        console.log(`Loading ${describeModel(model)} embedding model from ${modelDir} (offline)...`)
+        await verifyModelFiles(modelDir, model)
+      } else {
+        console.log(`Loading ${describeModel(model)} embedding model...`)
+        console.log('This may take 10-20s on first run (~25MB download for the default model)')
+      }
+
+      const { pipeline, env } = await import('@xenova/transformers')
+
+      if (modelDir) {
+        // Vendored files only: no downloads, and no stale copies from the cache
+        env.localModelPath = modelDir
+        env.allowLocalModels = true
+        env.allowRemoteModels = false
+        env.useFSCache = false
+      } else {
+        // Configure cache directory for model files
+        env.cacheDir = './.cache'
+      }
+
+      extractor = await pipeline(
+        'feature-extraction',
+        model.id,
+        {
+          progress_callback: (progress: any) => {
+            if (progress.status === 'downloading') {
+              const percent = ((progress.loaded / progress.total) * 100).toFixed(1)
+              console.log(`  Downloading model: ${percent}%`)
+            } else if (progress.status === 'done') {
+              console.log('  ✓ Model downloaded')
+            }
+          }
+        }
+      )
+
+      console.log('✓ Embedding model loaded and ready')
+    },
+    async embed(texts) {
+      if (!extractor) {
+        throw new Error('Model not loaded')
+      }
+
+      // Generate embeddings with same settings as Python pipeline
+      const output = await extractor(texts, {
+        pooling: 'mean',    // Mean pooling (same as Python)
+        normalize: true     // L2 normalization (same as Python)
+      })
+
+      // [texts, dimension] tensor to nested arrays
+      return output.tolist()
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Embedding worker thread (see `pool.ts`)
+ *
+ * Loads the Transformers.js model named in `workerData` (from its models
+ * directory, if given), reports ready, then embeds each list of texts it
+ * is sent. The pool sends one list at a time and waits for its reply.
+ */
+
+import { parentPort, workerData } from 'worker_threads'
+import type { EmbeddingModel } from '../db/models.js'
+import { createTransformersEmbedder } from './transformers.js'
+
+export type WorkerMessage =
+  | { type: 'ready' }
+  | { type: 'result'; vectors: number[][] }
+  | { type: 'error'; message: string }
+
+const port = parentPort
+if (!port) {
+  throw new Error('worker.ts must run in a worker thread')
+}
+
+const embedder = createTransformersEmbedder(
+  workerData.model as EmbeddingModel,
+  workerData.modelDir as string | undefined
+)
+
+// A failed load is thrown in the worker, surfacing as its 'error' event
+embedder.initialize().then(() => {
+  const reply = (message: WorkerMessage) => port.postMessage(message)
+
+  port.on('message', async (texts: string[]) => {
+    try {
+      reply({ type: 'result', vectors: await embedder.embed(texts) })
+    } catch (error) {
+      reply({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+    }
+  })
+  reply({ type: 'ready' })
+})
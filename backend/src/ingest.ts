@@ -0,0 +1,187 @@
+/**
+ * Standalone ingest command
+ *
+ * Builds collection tables without starting the server, so new tables can
+ * be prepared ahead of a deploy or restart. Accepts either:
+ *
+ * - no file: every configured collection (or just `--collection`) is
+ *   rebuilt from its own embeddings file
+ * - one embeddings file (JSON, JSONL, Parquet or Arrow IPC), loaded as is
+ *   into one collection
+ * - one or more distillation files (`{ repository, examples }` JSON), whose
+ *   examples are merged, embedded with the backend's model and written to
+ *   the collection's embeddings file before its table is built from it
+ *
+ * Usage:
+ *   npm run ingest -- [--collection <name>]
+ *   npm run ingest -- <embeddings file> [--collection <name>] [--format <format>]
+ *   npm run ingest -- <distillation file>... [--collection <name>] [--output <path>] [--format <format>] [--no-table]
+ *
+ * `--collection` defaults to the default collection. Its configured file
+ * and format (see `db/collections.ts`) are used unless a file, `--output`
+ * or `--format` is given.
+ */
+
+import { extname } from 'path'
+import { getDatabaseStats, initializeDatabase } from './db/database.js'
+import { loadCollectionConfigs, type CollectionConfig } from './db/collections.js'
+import { getEmbeddingModel } from './db/models.js'
+import {
+  resolveEmbeddingsSource,
+  writeEmbeddingsFile,
+  WRITABLE_FORMATS,
+  type EmbeddingsSource
+} from './db/sources.js'
+import { initializeEmbedder } from './services/embedder.js'
+import {
+  generateEmbeddings,
+  isDistillationFile,
+  loadDistillationFiles
+} from './services/distillation.js'
+
+interface IngestArgs {
+  paths: string[]
+  collection?: string // Collection to build (default: all, or the default for a file)
+  format?: string // Format of the embeddings file, read or written
+  output?: string // Embeddings file written from distillation files
+  table: boolean // Build the LanceDB table (default: true)
+}
+
+function parseArgs(args: string[]): IngestArgs {
+  const parsed: IngestArgs = { paths: [], table: true }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    const [option, inlineValue] = arg.startsWith('--') ? arg.split(/=(.*)/s) : [arg]
+    const value = () => {
+      const next = inlineValue ?? args[++i]
+      if (!next) {
+        throw new Error(`${option} needs a value`)
+      }
+      return next
+    }
+
+    if (option === '--collection') {
+      parsed.collection = value()
+    } else if (option === '--format') {
+      parsed.format = value()
+    } else if (option === '--output') {
+      parsed.output = value()
+    } else if (option === '--no-table') {
+      parsed.table = false
+    } else if (option.startsWith('--')) {
+      throw new Error(`Unknown option '${option}'`)
+    } else {
+      parsed.paths.push(arg)
+    }
+  }
+
+  return parsed
+}
+
+/**
+ * Which kind of input the paths are
+ *
+ * Distillation files are `.json` files holding an object.
+ *
+ * @throws Error if the paths mix kinds or name several embeddings files
+ */
+async function detectInput(paths: string[]): Promise<'embeddings' | 'distillation'> {
+  const kinds = await Promise.all(paths.map(async (path) =>
+    extname(path).toLowerCase() === '.json' && await isDistillationFile(path)
+      ? 'distillation'
+      : 'embeddings'
+  ))
+
+  if (kinds.every((kind) => kind === 'distillation')) {
+    return 'distillation'
+  }
+  if (kinds.length === 1) {
+    return 'embeddings'
+  }
+  throw new Error('Pass either one embeddings file or one or more distillation files')
+}
+
+/**
+ * The configured collection named by `--collection`, or the default one
+ *
+ * @throws Error if no collection has that name
+ */
+function findCollection(configs: CollectionConfig[], name?: string): CollectionConfig {
+  const collection = name ? configs.find((config) => config.name === name) : configs[0]
+  if (!collection) {
+    throw new Error(`Unknown collection '${name}' (expected ${configs.map((config) => config.name).join(', ')})`)
+  }
+  return collection
+}
+
+/**
+ * Embeddings file to read or write: the collection's own unless overridden
+ *
+ * An overriding file is taken to come from the collection's declared model.
+ */
+function overrideSource(collection: CollectionConfig, path?: string, format?: string): EmbeddingsSource {
+  return path || format
+    ? resolveEmbeddingsSource(path ?? collection.source.path, format, collection.source.model)
+    : collection.source
+}
+
+async function main() {
+  try {
+    const args = parseArgs(process.argv.slice(2))
+    const kind = args.paths.length > 0
+      ? await detectInput(args.paths)
+      : 'embeddings'
+    const configs = loadCollectionConfigs()
+    const collection = findCollection(configs, args.collection)
+
+    if (kind === 'embeddings') {
+      if (args.output || !args.table) {
+        throw new Error('--output and --no-table only apply to distillation files')
+      }
+
+      if (args.paths.length === 0 && !args.format && !args.collection) {
+        console.log(`Ingesting ${configs.map((config) => config.name).join(', ')}`)
+        await initializeDatabase({ rebuild: true, collections: configs })
+      } else {
+        const source = overrideSource(collection, args.paths[0], args.format)
+        console.log(`Ingesting ${source.path} (${source.format}) into ${collection.name}`)
+        await initializeDatabase({ rebuild: true, collections: [{ ...collection, source }] })
+      }
+    } else {
+      const source = overrideSource(collection, args.output, args.format)
+      if (!WRITABLE_FORMATS.includes(source.format)) {
+        throw new Error(`Cannot write ${source.format} embeddings; --output must be ${WRITABLE_FORMATS.join(' or ')}`)
+      }
+      // The table is labelled with the declared model, so it must be the one embedding
+      const { id } = getEmbeddingModel()
+      if (source.model !== id) {
+        throw new Error(
+          `Collection '${collection.name}' is declared to hold ${source.model} embeddings; ` +
+          `declare ${id} (its "model", or SOURCE_EMBEDDING_MODEL) to embed with it`
+        )
+      }
+      console.log(`Embedding ${args.paths.length} distillation file(s) into ${source.path} (${source.format})`)
+
+      const examples = await loadDistillationFiles(args.paths)
+      await initializeEmbedder()
+      const records = await generateEmbeddings(examples)
+      await writeEmbeddingsFile(records, source)
+      console.log(`✓ Wrote ${records.length} examples to ${source.path}`)
+
+      if (!args.table) {
+        return
+      }
+      // The server reuses this table while the collection is configured with the same file
+      await initializeDatabase({ rebuild: true, collections: [{ ...collection, source }] })
+    }
+
+    const { count } = await getDatabaseStats()
+    console.log(`✓ Ingest complete: ${count} examples`)
+  } catch (err) {
+    console.error('Ingest failed:', err instanceof Error ? err.message : err)
+    process.exit(1)
+  }
+}
+
+main()
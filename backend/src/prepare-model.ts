@@ -0,0 +1,81 @@
+/**
+ * Model vendoring command
+ *
+ * Downloads the Transformers.js files of the configured embedding model
+ * (EMBEDDING_MODEL) into a models directory and writes their checksum
+ * manifest, so the server can load the model offline with
+ * EMBEDDING_MODEL_DIR (see `embedders/model-files.ts`). Meant for image
+ * build time, while the network is still available.
+ *
+ * Usage:
+ *   npm run prepare-model -- [--dir <path>]
+ *
+ * `--dir` defaults to EMBEDDING_MODEL_DIR, then `models`. A previous copy
+ * of the model in it is replaced.
+ */
+
+import { rm } from 'fs/promises'
+import { describeModel, getEmbeddingModel } from './db/models.js'
+import { modelDirectory, verifyModelFiles, writeModelManifest } from './embedders/model-files.js'
+
+function parseArgs(args: string[]): { dir: string } {
+  let dir = process.env.EMBEDDING_MODEL_DIR || 'models'
+
+  for (let i = 0; i < args.length; i++) {
+    const [option, inlineValue] = args[i].split(/=(.*)/s)
+
+    if (option === '--dir') {
+      const value = inlineValue ?? args[++i]
+      if (!value) {
+        throw new Error('--dir needs a value')
+      }
+      dir = value
+    } else {
+      throw new Error(`Unknown argument '${args[i]}'`)
+    }
+  }
+
+  return { dir }
+}
+
+async function main() {
+  try {
+    const { dir } = parseArgs(process.argv.slice(2))
+    const model = getEmbeddingModel()
+    const modelDir = modelDirectory(dir, model)
+
+    console.log(`Vendoring ${describeModel(model)} into ${modelDir}`)
+    await rm(modelDir, { recursive: true, force: true })
+
+    const { pipeline, env } = await import('@xenova/transformers')
+
+    // Transformers.js caches files as <cacheDir>/<model id>/<file>, the
+    // layout it reads offline models from, so download straight into place
+    env.cacheDir = dir
+    env.allowLocalModels = false
+    env.allowRemoteModels = true
+
+    const extractor = await pipeline('feature-extraction', model.id)
+
+    // Catch a wrong EMBEDDING_DIMENSION here rather than at server startup
+    const output = await extractor(['algorand'], { pooling: 'mean', normalize: true })
+    const [vector] = output.tolist() as number[][]
+    if (vector.length !== model.dimension) {
+      throw new Error(`${model.id} produces ${vector.length}-dimensional vectors, expected ${model.dimension}`)
+    }
+
+    const manifest = await writeModelManifest(dir, model)
+    await verifyModelFiles(dir, model)
+
+    console.log(`✓ Vendored ${Object.keys(manifest.files).length} files:`)
+    for (const file of Object.keys(manifest.files)) {
+      console.log(`  ${file}`)
+    }
+    console.log(`Start the server with EMBEDDING_MODEL_DIR=${dir} to load it offline`)
+  } catch (err) {
+    console.error('Prepare model failed:', err instanceof Error ? err.message : err)
+    process.exit(1)
+  }
+}
+
+main()
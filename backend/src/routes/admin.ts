@@ -0,0 +1,217 @@
+/**
+ * Admin API route definitions
+ *
+ * Maintenance endpoints guarded by a bearer token. The token is read from
+ * the ADMIN_TOKEN environment variable; without it every admin request is
+ * rejected.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto'
+import type { FastifyInstance, FastifyPluginOptions } from 'fastify'
+import { Type } from '@sinclair/typebox'
+import { reloadDatabase, ModelMismatchError } from '../db/database.js'
+import { upsertExample, deleteExample } from '../services/curation.js'
+import { EmbedderBusyError } from '../embedders/embedder.js'
+import { rejectUnknownCollections } from './hooks.js'
+import {
+  CollectionQuerySchema,
+  ErrorResponseSchema,
+  ExampleIdParamsSchema,
+  type CollectionQuery
+} from '../schemas/search.js'
+import {
+  ReloadQuerySchema,
+  ReloadResponseSchema,
+  ExampleUpsertSchema,
+  ExampleUpsertResponseSchema,
+  type ReloadQuery,
+  type ExampleUpsert
+} from '../schemas/admin.js'
+
+/**
+ * Compare tokens in constant time (hashing first equalises their lengths)
+ */
+function tokensMatch(provided: string, expected: string): boolean {
+  const digest = (token: string) => createHash('sha256').update(token).digest()
+  return timingSafeEqual(digest(provided), digest(expected))
+}
+
+/**
+ * Register admin routes under /api/admin prefix
+ */
+export async function adminRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions
+) {
+  fastify.addHook('onRequest', async (request, reply) => {
+    const expected = process.env.ADMIN_TOKEN
+    if (!expected) {
+      reply.code(403).send({
+        statusCode: 403,
+        error: 'Forbidden',
+        message: 'Admin API is disabled: ADMIN_TOKEN is not set'
+      })
+      return reply
+    }
+
+    const [scheme, token] = (request.headers.authorization ?? '').split(' ')
+    if (scheme !== 'Bearer' || !token || !tokensMatch(token, expected)) {
+      reply.code(401).send({
+        statusCode: 401,
+        error: 'Unauthorized',
+        message: 'Missing or invalid bearer token'
+      })
+      return reply
+    }
+  })
+
+  fastify.addHook('preHandler', rejectUnknownCollections)
+
+  /**
+   * POST /api/admin/reload
+   *
+   * Rebuild a collection's table from its embeddings file and swap it in
+   */
+  fastify.post('/reload', {
+    schema: {
+      description: 'Reload a collection\'s embeddings file into a new table without downtime',
+      tags: ['admin'],
+      querystring: ReloadQuerySchema,
+      response: {
+        200: ReloadResponseSchema,
+        400: ErrorResponseSchema,
+        401: ErrorResponseSchema,
+        403: ErrorResponseSchema,
+        500: ErrorResponseSchema
+      }
+    }
+  }, async (request, reply) => {
+    const { force, collection } = request.query as ReloadQuery
+
+    try {
+      fastify.log.info({ force, collection }, 'Reload requested')
+      const result = await reloadDatabase({ force, collection })
+      fastify.log.info(
+        { collection: result.collection, status: result.status, examplesCount: result.examplesCount },
+        'Reload completed'
+      )
+      return result
+    } catch (error) {
+      fastify.log.error({ error }, 'Reload failed')
+      reply.code(500)
+      return {
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'Reload failed'
+      }
+    }
+  })
+  /**
+   * PUT /api/admin/examples/:id
+   *
+   * Create or replace an example, embedding it with the backend's model
+   */
+  fastify.put('/examples/:id', {
+    schema: {
+      description: 'Create or replace an AlgoKit example (the vector is computed by the backend)',
+      tags: ['admin'],
+      params: ExampleIdParamsSchema,
+      querystring: CollectionQuerySchema,
+      body: ExampleUpsertSchema,
+      response: {
+        200: ExampleUpsertResponseSchema,
+        201: ExampleUpsertResponseSchema,
+        400: ErrorResponseSchema,
+        401: ErrorResponseSchema,
+        403: ErrorResponseSchema,
+        409: ErrorResponseSchema,
+        500: ErrorResponseSchema,
+        503: ErrorResponseSchema
+      }
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const { collection } = request.query as CollectionQuery
+    const input = request.body as ExampleUpsert
+
+    try {
+      fastify.log.info({ exampleId: id, collection }, 'Upsert example request received')
+      const result = await upsertExample(id, input, collection)
+      fastify.log.info({ exampleId: id, created: result.created }, 'Example upserted')
+      reply.code(result.created ? 201 : 200)
+      return result
+    } catch (error) {
+      if (error instanceof EmbedderBusyError) {
+        throw error // 503 with Retry-After from the server's error handler
+      }
+      if (error instanceof ModelMismatchError) {
+        fastify.log.warn({ exampleId: id }, error.message)
+        reply.code(409)
+        return {
+          statusCode: 409,
+          error: 'Conflict',
+          message: error.message
+        }
+      }
+      fastify.log.error({ error, exampleId: id }, 'Upsert example failed')
+      reply.code(500)
+      return {
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'Failed to save example'
+      }
+    }
+  })
+
+  /**
+   * DELETE /api/admin/examples/:id
+   *
+   * Remove an example
+   */
+  fastify.delete('/examples/:id', {
+    schema: {
+      description: 'Delete an AlgoKit example',
+      tags: ['admin'],
+      params: ExampleIdParamsSchema,
+      querystring: CollectionQuerySchema,
+      response: {
+        204: Type.Null(),
+        400: ErrorResponseSchema,
+        401: ErrorResponseSchema,
+        403: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        500: ErrorResponseSchema
+      }
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const { collection } = request.query as CollectionQuery
+
+    try {
+      fastify.log.info({ exampleId: id, collection }, 'Delete example request received')
+      const deleted = await deleteExample(id, collection)
+
+      if (!deleted) {
+        fastify.log.info({ exampleId: id }, 'Example not found')
+        reply.code(404)
+        return {
+          statusCode: 404,
+          error: 'Not Found',
+          message: `Example with ID '${id}' not found`
+        }
+      }
+
+      fastify.log.info({ exampleId: id }, 'Example deleted')
+      reply.code(204)
+      return null
+    } catch (error) {
+      fastify.log.error({ error, exampleId: id }, 'Delete example failed')
+      reply.code(500)
+      return {
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'Failed to delete example'
+      }
+    }
+  })
+}
@@ -5,18 +5,84 @@
  */
 
 import type { FastifyInstance, FastifyPluginOptions } from 'fastify'
-import { searchExamples, getExampleById } from '../services/search.js'
-import { isInitialized as isDbInitialized, getDatabaseStats } from '../db/database.js'
-import { isInitialized as isEmbedderInitialized } from '../services/embedder.js'
+import {
+  searchExamples,
+  searchExamplesBatch,
+  getExampleById,
+  getExamplesByIds,
+  findSimilarExamples,
+  SearchQueryError,
+  type SearchResponse
+} from '../services/search.js'
+import { filtersFromQuerystring } from '../services/filters.js'
+import { suggest } from '../services/suggest.js'
+import { listExamples, getTaxonomy } from '../services/catalog.js'
+import { getQueryCacheStats } from '../services/query-cache.js'
+import {
+  isInitialized as isDbInitialized,
+  getCollectionNames,
+  getCollectionStats,
+  getDatabaseStats,
+  getDefaultCollection,
+  getReloadStatus,
+  getValidationReport,
+  getTableModel,
+  getModelMismatch,
+  withTable,
+  ModelMismatchError
+} from '../db/database.js'
+import { findVectorIndex } from '../db/vector-index.js'
+import { getEmbeddingModel } from '../db/models.js'
+import {
+  getEmbedderProvider,
+  getEmbedderQueueStats,
+  isInitialized as isEmbedderInitialized
+} from '../services/embedder.js'
+import { EmbedderBusyError } from '../embedders/embedder.js'
+import { findUnknownCollections, rejectUnknownCollections } from './hooks.js'
 import {
   SearchRequestSchema,
   SearchResponseSchema,
+  SearchBatchRequestSchema,
+  SearchBatchResponseSchema,
   AlgoKitExampleSchema,
   ExampleIdParamsSchema,
+  ExampleBatchRequestSchema,
+  ExampleBatchResponseSchema,
+  SimilarQuerySchema,
+  BrowseQuerySchema,
+  BrowseResponseSchema,
+  TaxonomyQuerySchema,
+  TaxonomyResponseSchema,
+  CollectionQuerySchema,
+  CollectionsResponseSchema,
+  SimilarResponseSchema,
+  SuggestQuerySchema,
+  SuggestResponseSchema,
   HealthResponseSchema,
-  ErrorResponseSchema
+  ErrorResponseSchema,
+  type SearchFilters,
+  type SearchMode,
+  type FacetField,
+  type GroupByField,
+  type SimilarQuery,
+  type BrowseQuery,
+  type TaxonomyQuery,
+  type CollectionQuery,
+  type ErrorResponse,
+  type SearchBatchRequest,
+  type SearchRequest
 } from '../schemas/search.js'
 
+/**
+ * Taxonomy endpoints and the metadata field each one enumerates
+ */
+const TAXONOMY_ROUTES: [string, FacetField][] = [
+  ['/tags', 'feature_tags'],
+  ['/repositories', 'repository'],
+  ['/languages', 'language']
+]
+
 /**
  * Register all API routes under /api prefix
  */
@@ -24,6 +90,8 @@ export async function apiRoutes(
   fastify: FastifyInstance,
   options: FastifyPluginOptions
 ) {
+  fastify.addHook('preHandler', rejectUnknownCollections)
+
   /**
    * POST /api/search
    *
@@ -31,24 +99,80 @@ export async function apiRoutes(
    */
   fastify.post('/search', {
     schema: {
-      description: 'Search AlgoKit examples using semantic similarity',
+      description: 'Search AlgoKit examples using semantic, keyword or hybrid ranking',
       tags: ['search'],
       body: SearchRequestSchema,
       response: {
         200: SearchResponseSchema,
         400: ErrorResponseSchema,
-        500: ErrorResponseSchema
+        409: ErrorResponseSchema,
+        500: ErrorResponseSchema,
+        503: ErrorResponseSchema
       }
     }
   }, async (request, reply) => {
-    const { query, limit } = request.body as { query: string; limit?: number }
+    const {
+      query, limit, offset, filters, mode, facets, diversity, groupBy, expand, nprobes, refineFactor, collections
+    } = request.body as {
+      query: string
+      limit?: number
+      offset?: number
+      filters?: SearchFilters
+      mode?: SearchMode
+      facets?: FacetField[]
+      diversity?: number
+      groupBy?: GroupByField
+      expand?: boolean
+      nprobes?: number
+      refineFactor?: number
+      collections?: string[]
+    }
 
     try {
-      fastify.log.info({ query, limit }, 'Search request received')
-      const results = await searchExamples(query, limit)
-      fastify.log.info({ count: results.count, processingTimeMs: results.processingTimeMs }, 'Search completed')
+      fastify.log.info(
+        { query, limit, offset, filters, mode, facets, diversity, groupBy, expand, nprobes, refineFactor, collections },
+        'Search request received'
+      )
+      const results = await searchExamples(query, {
+        limit,
+        offset,
+        filters,
+        mode,
+        facets,
+        diversity,
+        groupBy,
+        expand,
+        nprobes,
+        refineFactor,
+        collections
+      })
+      fastify.log.info(
+        { count: results.count, total: results.total, processingTimeMs: results.processingTimeMs },
+        'Search completed'
+      )
       return results
     } catch (error) {
+      if (error instanceof EmbedderBusyError) {
+        throw error // 503 with Retry-After from the server's error handler
+      }
+      if (error instanceof SearchQueryError) {
+        fastify.log.warn({ query }, error.message)
+        reply.code(400)
+        return {
+          statusCode: 400,
+          error: 'Bad Request',
+          message: error.message
+        }
+      }
+      if (error instanceof ModelMismatchError) {
+        fastify.log.warn({ query }, error.message)
+        reply.code(409)
+        return {
+          statusCode: 409,
+          error: 'Conflict',
+          message: error.message
+        }
+      }
       fastify.log.error({ error, query }, 'Search failed')
       reply.code(500)
       return {
@@ -59,6 +183,140 @@ export async function apiRoutes(
     }
   })
 
+  /**
+   * POST /api/search/batch
+   *
+   * Run several searches in one request, embedding their queries together
+   */
+  fastify.post('/search/batch', {
+    schema: {
+      description: 'Run several searches at once; each gets its own response or error, in request order',
+      tags: ['search'],
+      body: SearchBatchRequestSchema,
+      response: {
+        200: SearchBatchResponseSchema,
+        400: ErrorResponseSchema,
+        500: ErrorResponseSchema
+      }
+    }
+  }, async (request, reply) => {
+    const { searches } = request.body as SearchBatchRequest
+    const startTime = Date.now()
+
+    try {
+      fastify.log.info({ count: searches.length }, 'Batch search request received')
+
+      // Invalid searches and those naming unknown collections fail alone,
+      // like the others' errors; validation applies the same defaults and
+      // coercion as POST /api/search
+      const validate = request.compileValidationSchema(SearchRequestSchema)
+      const results: { response?: SearchResponse; error?: ErrorResponse }[] = []
+      const runnable: { index: number; search: SearchRequest }[] = []
+      for (const [index, search] of searches.entries()) {
+        if (!validate(search)) {
+          const message = (validate.errors ?? [])
+            .map((error) => `body/searches/${index}${error.instancePath} ${error.message}`)
+            .join(', ')
+          results[index] = { error: { statusCode: 400, error: 'Bad Request', message } }
+          continue
+        }
+
+        const message = findUnknownCollections((search as SearchRequest).collections ?? [])
+        if (message) {
+          results[index] = { error: { statusCode: 400, error: 'Bad Request', message } }
+        } else {
+          runnable.push({ index, search: search as SearchRequest })
+        }
+      }
+
+      const outcomes = await searchExamplesBatch(
+        runnable.map(({ search: { query, ...options } }) => ({ query, options }))
+      )
+
+      let retryAfterSeconds = 0
+      outcomes.forEach(({ response, error }, i) => {
+        if (response) {
+          results[runnable[i].index] = { response }
+        } else if (error instanceof EmbedderBusyError) {
+          retryAfterSeconds = Math.max(retryAfterSeconds, error.retryAfterSeconds)
+          results[runnable[i].index] = {
+            error: { statusCode: 503, error: 'Service Unavailable', message: error.message }
+          }
+        } else if (error instanceof SearchQueryError) {
+          results[runnable[i].index] = {
+            error: { statusCode: 400, error: 'Bad Request', message: error.message }
+          }
+        } else if (error instanceof ModelMismatchError) {
+          results[runnable[i].index] = {
+            error: { statusCode: 409, error: 'Conflict', message: error.message }
+          }
+        } else {
+          results[runnable[i].index] = {
+            error: { statusCode: 500, error: 'Internal Server Error', message: error?.message ?? 'Search query failed' }
+          }
+        }
+      })
+
+      // Tell clients when to retry the searches the embedding queue turned away
+      if (retryAfterSeconds > 0) {
+        reply.header('Retry-After', String(retryAfterSeconds))
+      }
+
+      const failed = results.filter(({ error }) => error).length
+      fastify.log.info({ count: results.length, failed }, 'Batch search completed')
+      return {
+        results,
+        count: results.length,
+        failed,
+        processingTimeMs: Date.now() - startTime
+      }
+    } catch (error) {
+      fastify.log.error({ error }, 'Batch search failed')
+      reply.code(500)
+      return {
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'Batch search failed'
+      }
+    }
+  })
+
+  /**
+   * GET /api/examples
+   *
+   * Browse AlgoKit examples by metadata, without a search query
+   */
+  fastify.get('/examples', {
+    schema: {
+      description: 'List AlgoKit examples with filtering, sorting and pagination',
+      tags: ['examples'],
+      querystring: BrowseQuerySchema,
+      response: {
+        200: BrowseResponseSchema,
+        400: ErrorResponseSchema,
+        500: ErrorResponseSchema
+      }
+    }
+  }, async (request, reply) => {
+    const { limit, offset, sort, order, facets, collection, ...filterQuery } = request.query as BrowseQuery
+    const filters = filtersFromQuerystring(filterQuery)
+
+    try {
+      fastify.log.info({ limit, offset, sort, order, filters, facets, collection }, 'Browse request received')
+      const results = await listExamples({ limit, offset, sort, order, filters, facets, collection })
+      fastify.log.info({ count: results.count, total: results.total }, 'Browse completed')
+      return results
+    } catch (error) {
+      fastify.log.error({ error }, 'Browse failed')
+      reply.code(500)
+      return {
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'Failed to list examples'
+      }
+    }
+  })
+
   /**
    * GET /api/examples/:id
    *
@@ -69,18 +327,21 @@ export async function apiRoutes(
       description: 'Get a specific AlgoKit example by ID',
       tags: ['examples'],
       params: ExampleIdParamsSchema,
+      querystring: CollectionQuerySchema,
       response: {
         200: AlgoKitExampleSchema,
+        400: ErrorResponseSchema,
         404: ErrorResponseSchema,
         500: ErrorResponseSchema
       }
     }
   }, async (request, reply) => {
     const { id } = request.params as { id: string }
+    const { collection } = request.query as CollectionQuery
 
     try {
-      fastify.log.info({ exampleId: id }, 'Get example request received')
-      const example = await getExampleById(id)
+      fastify.log.info({ exampleId: id, collection }, 'Get example request received')
+      const example = await getExampleById(id, collection)
 
       if (!example) {
         fastify.log.info({ exampleId: id }, 'Example not found')
@@ -105,6 +366,203 @@ export async function apiRoutes(
     }
   })
 
+  /**
+   * POST /api/examples/batch
+   *
+   * Retrieve several AlgoKit examples by ID in one request
+   */
+  fastify.post('/examples/batch', {
+    schema: {
+      description: 'Get several AlgoKit examples by ID, in request order',
+      tags: ['examples'],
+      body: ExampleBatchRequestSchema,
+      response: {
+        200: ExampleBatchResponseSchema,
+        400: ErrorResponseSchema,
+        500: ErrorResponseSchema
+      }
+    }
+  }, async (request, reply) => {
+    const { ids, collection } = request.body as { ids: string[]; collection?: string }
+    const startTime = Date.now()
+
+    try {
+      fastify.log.info({ count: ids.length, collection }, 'Batch example request received')
+      const { results, missing } = await getExamplesByIds(ids, collection)
+      fastify.log.info({ count: results.length, missing: missing.length }, 'Batch examples retrieved')
+      return {
+        results,
+        missing,
+        count: results.length,
+        processingTimeMs: Date.now() - startTime
+      }
+    } catch (error) {
+      fastify.log.error({ error }, 'Batch example retrieval failed')
+      reply.code(500)
+      return {
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'Failed to retrieve examples'
+      }
+    }
+  })
+
+  /**
+   * GET /api/examples/:id/similar
+   *
+   * Find nearest neighbours of an example using its stored vector
+   */
+  fastify.get('/examples/:id/similar', {
+    schema: {
+      description: 'Find AlgoKit examples similar to a given example',
+      tags: ['examples'],
+      params: ExampleIdParamsSchema,
+      querystring: SimilarQuerySchema,
+      response: {
+        200: SimilarResponseSchema,
+        400: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+        500: ErrorResponseSchema
+      }
+    }
+  }, async (request, reply) => {
+    const { id } = request.params as { id: string }
+    const { limit, collection, ...filterQuery } = request.query as SimilarQuery
+    const filters = filtersFromQuerystring(filterQuery)
+
+    try {
+      fastify.log.info({ exampleId: id, limit, filters, collection }, 'Similar examples request received')
+      const results = await findSimilarExamples(id, { limit, filters, collection })
+
+      if (!results) {
+        fastify.log.info({ exampleId: id }, 'Example not found')
+        reply.code(404)
+        return {
+          statusCode: 404,
+          error: 'Not Found',
+          message: `Example with ID '${id}' not found`
+        }
+      }
+
+      fastify.log.info({ exampleId: id, count: results.count }, 'Similar examples retrieved')
+      return results
+    } catch (error) {
+      fastify.log.error({ error, exampleId: id }, 'Similar examples failed')
+      reply.code(500)
+      return {
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'Failed to find similar examples'
+      }
+    }
+  })
+
+  /**
+   * GET /api/suggest
+   *
+   * Autocomplete search text from the in-memory suggestion index
+   */
+  fastify.get('/suggest', {
+    schema: {
+      description: 'Suggest completions for partially typed search text',
+      tags: ['search'],
+      querystring: SuggestQuerySchema,
+      response: {
+        200: SuggestResponseSchema,
+        400: ErrorResponseSchema
+      }
+    }
+  }, async (request, reply) => {
+    const { q, limit } = request.query as { q: string; limit?: number }
+    const startTime = Date.now()
+
+    // Called on every keystroke, so logged at debug level only
+    const suggestions = suggest(q, limit)
+    fastify.log.debug({ q, count: suggestions.length }, 'Suggestions served')
+
+    return {
+      query: q,
+      suggestions,
+      processingTimeMs: Date.now() - startTime
+    }
+  })
+
+  /**
+   * GET /api/tags, /api/repositories, /api/languages
+   *
+   * Distinct values of a metadata field with example counts
+   */
+  for (const [path, field] of TAXONOMY_ROUTES) {
+    fastify.get(path, {
+      schema: {
+        description: `List distinct ${field} values with example counts`,
+        tags: ['examples'],
+        querystring: TaxonomyQuerySchema,
+        response: {
+          200: TaxonomyResponseSchema,
+          400: ErrorResponseSchema,
+          500: ErrorResponseSchema
+        }
+      }
+    }, async (request, reply) => {
+      const { collection, ...filterQuery } = request.query as TaxonomyQuery
+      const filters = filtersFromQuerystring(filterQuery)
+
+      try {
+        const results = await getTaxonomy(field, filters, collection)
+        fastify.log.info({ field, count: results.values.length }, 'Taxonomy retrieved')
+        return results
+      } catch (error) {
+        fastify.log.error({ error, field }, 'Taxonomy failed')
+        reply.code(500)
+        return {
+          statusCode: 500,
+          error: 'Internal Server Error',
+          message: error instanceof Error ? error.message : `Failed to list ${field} values`
+        }
+      }
+    })
+  }
+
+  /**
+   * GET /api/collections
+   *
+   * Configured collections with their sources and table statistics
+   */
+  fastify.get('/collections', {
+    schema: {
+      description: 'List the example collections that can be searched',
+      tags: ['examples'],
+      response: {
+        200: CollectionsResponseSchema,
+        500: ErrorResponseSchema
+      }
+    }
+  }, async (request, reply) => {
+    const startTime = Date.now()
+
+    try {
+      const defaultCollection = getDefaultCollection()
+      const collections = await Promise.all(getCollectionNames().map(async (name) => ({
+        ...await getCollectionStats(name),
+        default: name === defaultCollection
+      })))
+      fastify.log.info({ count: collections.length }, 'Collections listed')
+      return {
+        collections,
+        processingTimeMs: Date.now() - startTime
+      }
+    } catch (error) {
+      fastify.log.error({ error }, 'Listing collections failed')
+      reply.code(500)
+      return {
+        statusCode: 500,
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'Failed to list collections'
+      }
+    }
+  })
+
   /**
    * GET /api/health
    *
@@ -123,11 +581,14 @@ export async function apiRoutes(
       const dbInitialized = isDbInitialized()
       const embedderInitialized = isEmbedderInitialized()
 
+      // Counted across collections; the other table details are the default collection's
       let examplesCount = 0
+      let vectorIndex: string | undefined
       if (dbInitialized) {
         try {
           const stats = await getDatabaseStats()
           examplesCount = stats.count
+          vectorIndex = await withTable(undefined, findVectorIndex)
         } catch (error) {
           fastify.log.warn({ error }, 'Failed to get database stats')
         }
@@ -140,7 +601,18 @@ export async function apiRoutes(
           database: dbInitialized,
           embedder: embedderInitialized
         },
-        examplesCount
+        examplesCount,
+        vectorIndex,
+        reload: getReloadStatus() ?? undefined,
+        validation: getValidationReport() ?? undefined,
+        model: {
+          provider: getEmbedderProvider() ?? undefined,
+          query: getEmbeddingModel(),
+          table: getTableModel() ?? undefined,
+          mismatch: getModelMismatch() ?? undefined
+        },
+        embeddingCache: getQueryCacheStats(),
+        embeddingQueue: getEmbedderQueueStats() ?? undefined
       }
     } catch (error) {
       fastify.log.error({ error }, 'Health check failed')
@@ -0,0 +1,42 @@
+/**
+ * Request hooks shared by the API and admin routes
+ */
+
+import type { FastifyReply, FastifyRequest } from 'fastify'
+import { getCollectionNames } from '../db/database.js'
+
+/**
+ * Reject requests naming a collection that is not configured
+ *
+ * Register as a preHandler, so it runs after schema validation. Checks the
+ * `collection` querystring parameter and the `collection` / `collections`
+ * body fields.
+ */
+export async function rejectUnknownCollections(request: FastifyRequest, reply: FastifyReply) {
+  const query = (request.query ?? {}) as { collection?: string }
+  const body = (request.body ?? {}) as { collection?: string; collections?: string[] }
+
+  const message = findUnknownCollections([query.collection, body.collection, ...(body.collections ?? [])])
+  if (message) {
+    reply.code(400).send({
+      statusCode: 400,
+      error: 'Bad Request',
+      message
+    })
+    return reply
+  }
+}
+
+/**
+ * Describe the names that are not configured collections
+ *
+ * @returns The error message, or null if every name is known (or absent)
+ */
+export function findUnknownCollections(names: (string | undefined)[]): string | null {
+  const known = getCollectionNames()
+  const unknown = names.filter((name): name is string => !!name && !known.includes(name))
+
+  return unknown.length > 0
+    ? `Unknown collection ${unknown.map((name) => `'${name}'`).join(', ')} (expected ${known.join(', ')})`
+    : null
+}
@@ -0,0 +1,83 @@
+/**
+ * TypeBox schemas for admin API endpoints
+ *
+ * Admin routes require `Authorization: Bearer <ADMIN_TOKEN>`.
+ */
+
+import { Type, type Static } from "@sinclair/typebox";
+import { complexityLevels, exampleLanguages } from "../db/models.js";
+import { AlgoKitExampleSchema, CollectionNameSchema } from "./search.js";
+
+/**
+ * Schema for POST /api/admin/reload querystring
+ */
+export const ReloadQuerySchema = Type.Object({
+  force: Type.Optional(
+    Type.Boolean({
+      default: false,
+      description: "Rebuild even if the embeddings file is unchanged",
+    })
+  ),
+  collection: Type.Optional(CollectionNameSchema),
+});
+
+export type ReloadQuery = Static<typeof ReloadQuerySchema>;
+
+/**
+ * Schema for POST /api/admin/reload response
+ */
+export const ReloadResponseSchema = Type.Object({
+  collection: Type.String({ description: "Collection that was reloaded" }),
+  status: Type.Union([Type.Literal("reloaded"), Type.Literal("unchanged")], {
+    description: "Whether a new table was built and swapped in",
+  }),
+  examplesCount: Type.Integer({
+    minimum: 0,
+    description: "Number of examples now served",
+  }),
+  contentHash: Type.String({
+    description: "SHA-256 of the embeddings file now served",
+  }),
+  processingTimeMs: Type.Number({
+    minimum: 0,
+    description: "Processing time in milliseconds",
+  }),
+});
+
+/**
+ * Schema for PUT /api/admin/examples/:id request body
+ *
+ * Example metadata without ID (taken from the path) or vector (computed by
+ * the backend). Complexity and language must be known values, as in
+ * embeddings files (see `db/validation.ts`).
+ */
+export const ExampleUpsertSchema = Type.Composite([
+  Type.Omit(AlgoKitExampleSchema, [
+    "example_id",
+    "vector",
+    "complexity",
+    "language",
+  ]),
+  Type.Object({
+    complexity: Type.Union(
+      complexityLevels.map((level) => Type.Literal(level)),
+      { description: `Complexity level: ${complexityLevels.join(", ")}` }
+    ),
+    language: Type.Union(
+      exampleLanguages.map((language) => Type.Literal(language)),
+      { description: `Programming language: ${exampleLanguages.join(", ")}` }
+    ),
+  }),
+]);
+
+export type ExampleUpsert = Static<typeof ExampleUpsertSchema>;
+
+/**
+ * Schema for PUT /api/admin/examples/:id response
+ */
+export const ExampleUpsertResponseSchema = Type.Object({
+  example: AlgoKitExampleSchema,
+  created: Type.Boolean({
+    description: "True if the example was inserted, false if replaced",
+  }),
+});
@@ -4,7 +4,213 @@
  * Provides type-safe validation and TypeScript types for API requests/responses.
  */
 
-import { Type } from "@sinclair/typebox";
+import { Type, type Static } from "@sinclair/typebox";
+
+/**
+ * Schema for filters on list-valued fields (feature_tags, target_users)
+ */
+export const ListFilterSchema = Type.Object(
+  {
+    all: Type.Optional(
+      Type.Array(Type.String({ minLength: 1 }), {
+        minItems: 1,
+        description: "Match examples carrying every one of these values",
+      })
+    ),
+    any: Type.Optional(
+      Type.Array(Type.String({ minLength: 1 }), {
+        minItems: 1,
+        description: "Match examples carrying at least one of these values",
+      })
+    ),
+    none: Type.Optional(
+      Type.Array(Type.String({ minLength: 1 }), {
+        minItems: 1,
+        description: "Exclude examples carrying any of these values",
+      })
+    ),
+  },
+  { additionalProperties: false }
+);
+
+/**
+ * Schema for excluded values of single-valued fields
+ */
+export const ExcludeFilterSchema = Type.Object(
+  {
+    language: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+    complexity: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+    repository: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+  },
+  {
+    additionalProperties: false,
+    description: "Exclude examples whose field equals any of these values",
+  }
+);
+
+/**
+ * Schema for structured metadata filters applied before vector search
+ */
+export const SearchFiltersSchema = Type.Object(
+  {
+    language: Type.Optional(
+      Type.String({
+        minLength: 1,
+        description: "Exact programming language, e.g. python",
+      })
+    ),
+    complexity: Type.Optional(
+      Type.String({
+        minLength: 1,
+        description: "Exact complexity level, e.g. simple",
+      })
+    ),
+    repository: Type.Optional(
+      Type.String({ minLength: 1, description: "Exact source repository name" })
+    ),
+    feature_tags: Type.Optional(ListFilterSchema),
+    target_users: Type.Optional(ListFilterSchema),
+    exclude: Type.Optional(ExcludeFilterSchema),
+  },
+  { additionalProperties: false }
+);
+
+/**
+ * Schema for the ranking source used by a search
+ */
+export const SearchModeSchema = Type.Union(
+  [Type.Literal("vector"), Type.Literal("keyword"), Type.Literal("hybrid")],
+  {
+    description:
+      "vector: semantic similarity, keyword: BM25 full-text, hybrid: both fused with reciprocal rank fusion",
+  }
+);
+
+/**
+ * How a search query's vector was obtained
+ */
+export const EmbeddingCacheOutcomeSchema = Type.Union(
+  [Type.Literal("hit"), Type.Literal("shared"), Type.Literal("miss")],
+  {
+    description:
+      "hit: cached vector, shared: joined an identical query being embedded, miss: embedded by the model",
+  }
+);
+
+/**
+ * Schema for search filters flattened into querystring parameters
+ *
+ * List parameters may be repeated, e.g. `?feature_tags_any=box&feature_tags_any=asset`.
+ */
+export const FilterQuerystringSchema = Type.Object({
+  language: Type.Optional(Type.String({ minLength: 1 })),
+  complexity: Type.Optional(Type.String({ minLength: 1 })),
+  repository: Type.Optional(Type.String({ minLength: 1 })),
+  feature_tags_all: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+  feature_tags_any: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+  feature_tags_none: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+  target_users_all: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+  target_users_any: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+  target_users_none: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+  exclude_language: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+  exclude_complexity: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+  exclude_repository: Type.Optional(Type.Array(Type.String({ minLength: 1 }))),
+});
+
+/**
+ * Schema for a collection name (see `db/collections.ts`)
+ */
+export const CollectionNameSchema = Type.String({
+  pattern: "^[a-z][a-z0-9-]*$",
+  description: "Collection name, as listed by GET /api/collections",
+});
+
+/**
+ * Schema for endpoints reading a single collection (default: the default
+ * collection)
+ */
+export const CollectionQuerySchema = Type.Object({
+  collection: Type.Optional(CollectionNameSchema),
+});
+
+export type CollectionQuery = Static<typeof CollectionQuerySchema>;
+
+/**
+ * Schema for metadata fields that can be faceted
+ */
+export const FacetFieldSchema = Type.Union([
+  Type.Literal("language"),
+  Type.Literal("complexity"),
+  Type.Literal("repository"),
+  Type.Literal("feature_tags"),
+  Type.Literal("target_users"),
+]);
+
+/**
+ * Schema for facet counts: field -> (value -> number of examples)
+ */
+export const FacetsSchema = Type.Record(
+  Type.String(),
+  Type.Record(Type.String(), Type.Integer({ minimum: 0 })),
+  {
+    description:
+      "Example counts per value of each requested facet field, over all candidates matching the query and filters",
+  }
+);
+
+/**
+ * Schema for fields that identify variants of the same example
+ */
+export const GroupByFieldSchema = Type.Union(
+  [Type.Literal("folder_name"), Type.Literal("title")],
+  {
+    description:
+      "Collapse results sharing this field into one result with a variants list",
+  }
+);
+
+/**
+ * Schema for the structure parsed out of an inline query
+ */
+export const ParsedQuerySchema = Type.Object({
+  text: Type.String({
+    description: "Free text left after removing qualifiers; this is what gets embedded",
+  }),
+  phrases: Type.Array(Type.String(), {
+    description:
+      "Quoted phrases found in the free text (searched as loose words, not exact phrases)",
+  }),
+  qualifiers: Type.Array(
+    Type.Object({
+      field: FacetFieldSchema,
+      value: Type.String(),
+      negated: Type.Boolean(),
+      raw: Type.String({ description: "Qualifier as typed, e.g. -tag:deprecated" }),
+    }),
+    { description: "Inline qualifiers converted to filters" }
+  ),
+});
+
+/**
+ * Schema for a synonym/acronym expansion applied to a query
+ */
+export const QueryExpansionSchema = Type.Object({
+  term: Type.String({ description: "Dictionary term found in the query" }),
+  expansions: Type.Array(Type.String(), {
+    description: "Terms appended to the query for it",
+  }),
+});
+
+export type ListFilter = Static<typeof ListFilterSchema>;
+export type ExcludeFilter = Static<typeof ExcludeFilterSchema>;
+export type ParsedQuery = Static<typeof ParsedQuerySchema>;
+export type QueryExpansion = Static<typeof QueryExpansionSchema>;
+export type FilterQuerystring = Static<typeof FilterQuerystringSchema>;
+export type SearchFilters = Static<typeof SearchFiltersSchema>;
+export type SearchMode = Static<typeof SearchModeSchema>;
+export type FacetField = Static<typeof FacetFieldSchema>;
+export type GroupByField = Static<typeof GroupByFieldSchema>;
+export type FacetCounts = Record<string, number>;
 
 /**
  * Schema for POST /api/search request body
@@ -23,6 +229,78 @@ export const SearchRequestSchema = Type.Object({
       description: "Maximum number of results to return",
     })
   ),
+  offset: Type.Optional(
+    Type.Integer({
+      minimum: 0,
+      maximum: 249,
+      default: 0,
+      description:
+        "Number of ranked results to skip; offset + limit is capped at 250",
+    })
+  ),
+  filters: Type.Optional(SearchFiltersSchema),
+  mode: Type.Optional(SearchModeSchema),
+  facets: Type.Optional(
+    Type.Array(FacetFieldSchema, {
+      uniqueItems: true,
+      description: "Metadata fields to return value counts for",
+    })
+  ),
+  diversity: Type.Optional(
+    Type.Number({
+      minimum: 0,
+      maximum: 1,
+      default: 0,
+      description:
+        "Maximal marginal relevance trade-off: 0 ranks by relevance only, higher values push near-duplicates down",
+    })
+  ),
+  groupBy: Type.Optional(GroupByFieldSchema),
+  expand: Type.Optional(
+    Type.Boolean({
+      default: true,
+      description: "Expand Algorand acronyms and synonyms before searching",
+    })
+  ),
+  nprobes: Type.Optional(
+    Type.Integer({
+      minimum: 1,
+      maximum: 1024,
+      description:
+        "Vector index partitions to probe; higher improves recall at the cost of latency (ignored without a vector index)",
+    })
+  ),
+  refineFactor: Type.Optional(
+    Type.Integer({
+      minimum: 1,
+      maximum: 100,
+      description:
+        "Fetch this many times the candidates from the vector index and re-rank them by exact distance (ignored without a vector index)",
+    })
+  ),
+  collections: Type.Optional(
+    Type.Array(CollectionNameSchema, {
+      minItems: 1,
+      uniqueItems: true,
+      description:
+        "Collections to search, merged into one ranking (default: the default collection)",
+    })
+  ),
+});
+
+export type SearchRequest = Static<typeof SearchRequestSchema>;
+
+/**
+ * Schema for a variant collapsed into a grouped search result
+ */
+export const SearchResultVariantSchema = Type.Object({
+  example_id: Type.String(),
+  collection: Type.String(),
+  repository: Type.String(),
+  language: Type.String(),
+  title: Type.String(),
+  folder_name: Type.Optional(Type.String()),
+  similarity: Type.Optional(Type.Number({ minimum: 0, maximum: 100 })),
 });
 
 /**
@@ -30,6 +308,7 @@ export const SearchRequestSchema = Type.Object({
  */
 export const SearchResultSchema = Type.Object({
   example_id: Type.String({ description: "Unique example identifier" }),
+  collection: Type.String({ description: "Collection the example belongs to" }),
   repository: Type.String({ description: "Source repository name" }),
   title: Type.String({ description: "Example title" }),
   summary: Type.String({ description: "Example description" }),
@@ -52,15 +331,41 @@ export const SearchResultSchema = Type.Object({
   source_code: Type.Optional(
     Type.String({ description: "Example source code" })
   ),
-  similarity: Type.Number({
-    minimum: 0,
-    maximum: 100,
-    description: "Similarity score as percentage (0-100)",
-  }),
-  _distance: Type.Number({
-    minimum: 0,
-    description: "L2 distance from query vector (lower is better)",
+  similarity: Type.Optional(
+    Type.Number({
+      minimum: 0,
+      maximum: 100,
+      description:
+        "Similarity score as percentage (0-100), omitted in keyword mode",
+    })
+  ),
+  _distance: Type.Optional(
+    Type.Number({
+      minimum: 0,
+      description:
+        "L2 distance from query vector (lower is better), omitted in keyword mode",
+    })
+  ),
+  scores: Type.Object({
+    vector: Type.Union([Type.Number(), Type.Null()], {
+      description: "Vector similarity percentage, null in keyword mode",
+    }),
+    keyword: Type.Union([Type.Number(), Type.Null()], {
+      description: "BM25 keyword score, null when the query terms did not match",
+    }),
+    fused: Type.Number({
+      description: "Reciprocal rank fusion score (higher is better)",
+    }),
+    rank: Type.Integer({
+      minimum: 1,
+      description: "1-based position in the final ranking",
+    }),
   }),
+  variants: Type.Optional(
+    Type.Array(SearchResultVariantSchema, {
+      description: "Other examples collapsed into this result by groupBy",
+    })
+  ),
 });
 
 /**
@@ -71,10 +376,122 @@ export const SearchResponseSchema = Type.Object({
     description: "Array of matching examples",
   }),
   query: Type.String({ description: "The search query that was executed" }),
+  parsedQuery: ParsedQuerySchema,
+  expansions: Type.Array(QueryExpansionSchema, {
+    description: "Synonym/acronym expansions applied, empty when disabled",
+  }),
+  mode: SearchModeSchema,
+  collections: Type.Array(Type.String(), {
+    description: "Collections that were searched",
+  }),
+  filters: SearchFiltersSchema,
+  facets: Type.Optional(FacetsSchema),
+  embeddingCache: Type.Optional(EmbeddingCacheOutcomeSchema),
   count: Type.Integer({
     minimum: 0,
     description: "Number of results returned",
   }),
+  offset: Type.Integer({
+    minimum: 0,
+    description: "Number of ranked results skipped before this page",
+  }),
+  total: Type.Integer({
+    minimum: 0,
+    description: "Number of examples matching the query and filters",
+  }),
+  hasMore: Type.Boolean({
+    description: "Whether another page can be requested",
+  }),
+  processingTimeMs: Type.Number({
+    minimum: 0,
+    description: "Processing time in milliseconds",
+  }),
+});
+
+/**
+ * Schema for GET /api/examples/:id/similar querystring
+ */
+export const SimilarQuerySchema = Type.Composite([
+  Type.Object({
+    limit: Type.Optional(
+      Type.Integer({
+        minimum: 1,
+        maximum: 50,
+        default: 10,
+        description: "Maximum number of similar examples to return",
+      })
+    ),
+  }),
+  CollectionQuerySchema,
+  FilterQuerystringSchema,
+]);
+
+export type SimilarQuery = Static<typeof SimilarQuerySchema>;
+
+/**
+ * Schema for GET /api/examples/:id/similar response
+ */
+export const SimilarResponseSchema = Type.Object({
+  results: Type.Array(SearchResultSchema, {
+    description: "Nearest neighbours of the source example, excluding itself",
+  }),
+  exampleId: Type.String({ description: "The source example ID" }),
+  filters: SearchFiltersSchema,
+  count: Type.Integer({
+    minimum: 0,
+    description: "Number of results returned",
+  }),
+  processingTimeMs: Type.Number({
+    minimum: 0,
+    description: "Processing time in milliseconds",
+  }),
+});
+
+/**
+ * Schema for where a suggestion comes from
+ */
+export const SuggestionSourceSchema = Type.Union([
+  Type.Literal("title"),
+  Type.Literal("tag"),
+  Type.Literal("feature"),
+  Type.Literal("query"),
+]);
+
+export type SuggestionSource = Static<typeof SuggestionSourceSchema>;
+
+/**
+ * Schema for GET /api/suggest querystring
+ */
+export const SuggestQuerySchema = Type.Object({
+  q: Type.String({
+    minLength: 1,
+    maxLength: 100,
+    description: "Partially typed search text",
+  }),
+  limit: Type.Optional(
+    Type.Integer({
+      minimum: 1,
+      maximum: 20,
+      default: 8,
+      description: "Maximum number of suggestions to return",
+    })
+  ),
+});
+
+/**
+ * Schema for GET /api/suggest response
+ */
+export const SuggestResponseSchema = Type.Object({
+  query: Type.String({ description: "The text suggestions were computed for" }),
+  suggestions: Type.Array(
+    Type.Object({
+      text: Type.String({ description: "Completion to offer" }),
+      source: SuggestionSourceSchema,
+      score: Type.Number({
+        description: "Match score: prefix > word prefix > fuzzy, plus popularity",
+      }),
+    })
+  ),
   processingTimeMs: Type.Number({
     minimum: 0,
     description: "Processing time in milliseconds",
@@ -97,7 +514,7 @@ export const AlgoKitExampleSchema = Type.Object({
   folder_name: Type.Optional(Type.String()),
   source_code: Type.Optional(Type.String()),
   vector: Type.Array(Type.Number(), {
-    description: "384-dimensional embedding vector",
+    description: "Embedding vector (dimension set by the embedding model)",
   }),
 });
 
@@ -111,6 +528,295 @@ export const ExampleIdParamsSchema = Type.Object({
   }),
 });
 
+/**
+ * Maximum number of IDs accepted by POST /api/examples/batch
+ */
+export const MAX_BATCH_IDS = 100;
+
+/**
+ * Schema for POST /api/examples/batch request body
+ */
+export const ExampleBatchRequestSchema = Type.Object({
+  ids: Type.Array(Type.String({ minLength: 1 }), {
+    minItems: 1,
+    maxItems: MAX_BATCH_IDS,
+    description: "Example IDs to fetch, in the order they should be returned",
+  }),
+  collection: Type.Optional(CollectionNameSchema),
+});
+
+/**
+ * Schema for POST /api/examples/batch response
+ */
+export const ExampleBatchResponseSchema = Type.Object({
+  results: Type.Array(AlgoKitExampleSchema, {
+    description: "Found examples in request order (repeated IDs once)",
+  }),
+  missing: Type.Array(Type.String(), {
+    description: "Requested IDs with no matching example",
+  }),
+  count: Type.Integer({
+    minimum: 0,
+    description: "Number of examples returned",
+  }),
+  processingTimeMs: Type.Number({
+    minimum: 0,
+    description: "Processing time in milliseconds",
+  }),
+});
+
+/**
+ * Schema for an example in catalogue listings (no vector or source code)
+ */
+export const ExampleSummarySchema = Type.Omit(AlgoKitExampleSchema, [
+  "vector",
+  "source_code",
+]);
+
+/**
+ * Schema for catalogue sort fields
+ */
+export const BrowseSortSchema = Type.Union(
+  [Type.Literal("title"), Type.Literal("complexity"), Type.Literal("repository")],
+  {
+    description:
+      "Sort field; complexity sorts simple, moderate, complex rather than alphabetically",
+  }
+);
+
+/**
+ * Schema for GET /api/examples querystring
+ */
+export const BrowseQuerySchema = Type.Composite([
+  Type.Object({
+    limit: Type.Optional(
+      Type.Integer({
+        minimum: 1,
+        maximum: 100,
+        default: 20,
+        description: "Maximum number of examples to return",
+      })
+    ),
+    offset: Type.Optional(
+      Type.Integer({
+        minimum: 0,
+        default: 0,
+        description: "Number of examples to skip",
+      })
+    ),
+    sort: Type.Optional(BrowseSortSchema),
+    order: Type.Optional(
+      Type.Union([Type.Literal("asc"), Type.Literal("desc")], {
+        description: "Sort direction (default: asc)",
+      })
+    ),
+    facets: Type.Optional(
+      Type.Array(FacetFieldSchema, {
+        uniqueItems: true,
+        description: "Metadata fields to return value counts for (repeatable)",
+      })
+    ),
+  }),
+  CollectionQuerySchema,
+  FilterQuerystringSchema,
+]);
+
+export type BrowseSort = Static<typeof BrowseSortSchema>;
+export type BrowseQuery = Static<typeof BrowseQuerySchema>;
+
+/**
+ * Schema for GET /api/examples response
+ */
+export const BrowseResponseSchema = Type.Object({
+  results: Type.Array(ExampleSummarySchema, {
+    description: "Examples matching the filters, in sort order",
+  }),
+  filters: SearchFiltersSchema,
+  facets: Type.Optional(FacetsSchema),
+  sort: BrowseSortSchema,
+  order: Type.String({ description: "Sort direction: asc or desc" }),
+  count: Type.Integer({
+    minimum: 0,
+    description: "Number of examples returned",
+  }),
+  offset: Type.Integer({
+    minimum: 0,
+    description: "Number of examples skipped before this page",
+  }),
+  total: Type.Integer({
+    minimum: 0,
+    description: "Number of examples matching the filters",
+  }),
+  hasMore: Type.Boolean({
+    description: "Whether another page can be requested",
+  }),
+  processingTimeMs: Type.Number({
+    minimum: 0,
+    description: "Processing time in milliseconds",
+  }),
+});
+
+/**
+ * Schema for taxonomy endpoint querystrings
+ */
+export const TaxonomyQuerySchema = Type.Composite([
+  CollectionQuerySchema,
+  FilterQuerystringSchema,
+]);
+
+export type TaxonomyQuery = Static<typeof TaxonomyQuerySchema>;
+
+/**
+ * Schema for taxonomy endpoints (GET /api/tags, /api/repositories, /api/languages)
+ */
+export const TaxonomyResponseSchema = Type.Object({
+  field: FacetFieldSchema,
+  values: Type.Array(
+    Type.Object({
+      value: Type.String(),
+      count: Type.Integer({
+        minimum: 0,
+        description: "Number of examples carrying the value",
+      }),
+    }),
+    { description: "Distinct values, most common first" }
+  ),
+  processingTimeMs: Type.Number({
+    minimum: 0,
+    description: "Processing time in milliseconds",
+  }),
+});
+
+/**
+ * Identity of an embedding model
+ */
+const EmbeddingModelSchema = Type.Object({
+  id: Type.String({ description: "Transformers.js model id" }),
+  dimension: Type.Integer({ minimum: 1 }),
+});
+
+/**
+ * Query embedding cache counters since startup
+ */
+const EmbeddingCacheStatsSchema = Type.Object(
+  {
+    enabled: Type.Boolean({ description: "False when QUERY_CACHE_SIZE is 0" }),
+    size: Type.Integer({ minimum: 0, description: "Queries currently cached" }),
+    capacity: Type.Integer({ minimum: 0, description: "Most queries kept" }),
+    hits: Type.Integer({ minimum: 0 }),
+    shared: Type.Integer({
+      minimum: 0,
+      description: "Lookups that joined an identical query being embedded",
+    }),
+    misses: Type.Integer({ minimum: 0 }),
+    hitRate: Type.Number({
+      minimum: 0,
+      maximum: 1,
+      description: "Share of lookups served without a new embedding",
+    }),
+    persisted: Type.Boolean({ description: "Whether QUERY_CACHE_PATH is set" }),
+  },
+  { description: "Query embedding cache statistics" }
+);
+
+/**
+ * Embedding worker pool load
+ */
+const EmbeddingQueueSchema = Type.Object(
+  {
+    workers: Type.Integer({ minimum: 0, description: "Workers ready to embed" }),
+    busy: Type.Integer({ minimum: 0, description: "Workers embedding a request" }),
+    queued: Type.Integer({ minimum: 0, description: "Requests waiting for a worker" }),
+    queueSize: Type.Integer({
+      minimum: 0,
+      description: "Most requests allowed to wait before new ones get 503",
+    }),
+    rejected: Type.Integer({
+      minimum: 0,
+      description: "Requests refused because the queue was full",
+    }),
+    timedOut: Type.Integer({
+      minimum: 0,
+      description: "Requests that did not finish within EMBEDDING_TIMEOUT_MS",
+    }),
+  },
+  { description: "Embedding worker pool (absent when embedding in process)" }
+);
+
+/**
+ * Outcome of a table reload
+ */
+const ReloadStatusSchema = Type.Object(
+  {
+    at: Type.String({ description: "ISO timestamp the reload finished" }),
+    ok: Type.Boolean(),
+    error: Type.Optional(Type.String()),
+  },
+  { description: "Outcome of the last reload (absent if none has run)" }
+);
+
+/**
+ * Validation report for a loaded embeddings file
+ */
+const ValidationReportSchema = Type.Object(
+  {
+    mode: Type.String({ description: "strict or lenient" }),
+    checked: Type.Integer({ minimum: 0 }),
+    valid: Type.Integer({ minimum: 0 }),
+    skipped: Type.Array(
+      Type.Object({
+        index: Type.Integer({ minimum: 0 }),
+        example_id: Type.Union([Type.String(), Type.Null()]),
+        issues: Type.Array(Type.String()),
+      }),
+      { description: "Records left out of the table and why" }
+    ),
+  },
+  { description: "Validation report for the loaded embeddings file" }
+);
+
+/**
+ * Schema for a collection in GET /api/collections
+ */
+export const CollectionSchema = Type.Object({
+  name: Type.String(),
+  description: Type.Optional(Type.String()),
+  default: Type.Boolean({
+    description: "Whether requests without a collection read this one",
+  }),
+  source: Type.Object({
+    file: Type.String({ description: "Embeddings file name" }),
+    format: Type.String({ description: "json, jsonl, parquet or arrow" }),
+  }),
+  examplesCount: Type.Integer({
+    minimum: 0,
+    description: "Number of examples in the collection",
+  }),
+  contentHash: Type.String({
+    description: "SHA-256 of the embeddings file the table was built from",
+  }),
+  tableName: Type.String({ description: "Live LanceDB table generation" }),
+  model: EmbeddingModelSchema,
+  vectorIndex: Type.String({
+    description: "Vector index on the table: ivf_pq, hnsw_sq or none (flat scan)",
+  }),
+  validation: ValidationReportSchema,
+  reload: Type.Optional(ReloadStatusSchema),
+});
+
+/**
+ * Schema for GET /api/collections response
+ */
+export const CollectionsResponseSchema = Type.Object({
+  collections: Type.Array(CollectionSchema, {
+    description: "Configured collections, the default first",
+  }),
+  processingTimeMs: Type.Number({
+    minimum: 0,
+    description: "Processing time in milliseconds",
+  }),
+});
+
 /**
  * Schema for GET /api/health response
  */
@@ -123,8 +829,37 @@ export const HealthResponseSchema = Type.Object({
   }),
   examplesCount: Type.Integer({
     minimum: 0,
-    description: "Number of examples in database",
+    description: "Number of examples in database, across all collections",
   }),
+  vectorIndex: Type.Optional(
+    Type.String({
+      description:
+        "Vector index on the default collection's table: ivf_pq, hnsw_sq or none (flat scan)",
+    })
+  ),
+  reload: Type.Optional(ReloadStatusSchema),
+  validation: Type.Optional(ValidationReportSchema),
+  model: Type.Optional(
+    Type.Object(
+      {
+        provider: Type.Optional(
+          Type.String({
+            description: "Embedder computing query vectors: transformers, http or fake",
+          })
+        ),
+        query: EmbeddingModelSchema,
+        table: Type.Optional(EmbeddingModelSchema),
+        mismatch: Type.Optional(
+          Type.String({
+            description: "Why semantic queries are refused (absent if the models match)",
+          })
+        ),
+      },
+      { description: "Embedding model for queries and for the default collection's vectors" }
+    )
+  ),
+  embeddingCache: Type.Optional(EmbeddingCacheStatsSchema),
+  embeddingQueue: Type.Optional(EmbeddingQueueSchema),
 });
 
 /**
@@ -135,3 +870,57 @@ export const ErrorResponseSchema = Type.Object({
   error: Type.String(),
   message: Type.String(),
 });
+
+export type ErrorResponse = Static<typeof ErrorResponseSchema>;
+
+/**
+ * Maximum number of searches accepted by POST /api/search/batch
+ */
+export const MAX_BATCH_SEARCHES = 50;
+
+/**
+ * Schema for POST /api/search/batch request body
+ *
+ * Each search is checked against `SearchRequestSchema` by the route, so an
+ * invalid one fails alone instead of rejecting the batch.
+ */
+export const SearchBatchRequestSchema = Type.Object({
+  searches: Type.Array(
+    Type.Unknown({ description: "A POST /api/search body" }),
+    {
+      minItems: 1,
+      maxItems: MAX_BATCH_SEARCHES,
+      description: "Searches to run, each as a POST /api/search body",
+    }
+  ),
+});
+
+export type SearchBatchRequest = Static<typeof SearchBatchRequestSchema>;
+
+/**
+ * Schema for POST /api/search/batch response
+ */
+export const SearchBatchResponseSchema = Type.Object({
+  results: Type.Array(
+    Type.Object({
+      response: Type.Optional(SearchResponseSchema),
+      error: Type.Optional(ErrorResponseSchema),
+    }),
+    {
+      description:
+        "One entry per search, in request order: its response, or the error that stopped it",
+    }
+  ),
+  count: Type.Integer({
+    minimum: 0,
+    description: "Number of searches run",
+  }),
+  failed: Type.Integer({
+    minimum: 0,
+    description: "Number of searches that returned an error",
+  }),
+  processingTimeMs: Type.Number({
+    minimum: 0,
+    description: "Processing time in milliseconds",
+  }),
+});
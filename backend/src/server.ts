@@ -0,0 +1,108 @@
+/**
+ * Fastify server setup
+ *
+ * Builds the server and initializes its services without listening, so
+ * `index.ts` can start it and tests can drive it with `inject()`.
+ */
+
+import Fastify, { type FastifyServerOptions } from 'fastify'
+import cors from '@fastify/cors'
+import { initializeDatabase, watchEmbeddings } from './db/database.js'
+import { initializeEmbedder } from './services/embedder.js'
+import { initializeQueryCache, saveQueryCache } from './services/query-cache.js'
+import { loadSynonyms } from './services/synonyms.js'
+import { apiRoutes } from './routes/api.js'
+import { adminRoutes } from './routes/admin.js'
+import { EmbedderBusyError, type Embedder } from './embedders/embedder.js'
+
+export interface BuildServerOptions {
+  embedder?: Embedder // Defaults to the provider selected by EMBEDDER
+  rebuild?: boolean // Recreate the LanceDB tables even if their embeddings are unchanged
+  logger?: FastifyServerOptions['logger'] // Default: Pino logging on
+}
+
+/**
+ * Build the Fastify server with all routes and initialized services
+ *
+ * For tests that must run offline, pass a fake embedder:
+ *
+ * ```ts
+ * const server = await buildServer({ embedder: createFakeEmbedder(384), logger: false })
+ * const response = await server.inject({ method: 'POST', url: '/api/search', payload: { query: 'box storage' } })
+ * ```
+ */
+export async function buildServer(options: BuildServerOptions = {}) {
+  const fastify = Fastify({
+    logger: options.logger ?? true // Built-in Pino logging
+  })
+
+  // Register CORS plugin
+  // Allow frontend from localhost (dev) or any Cloud Run domain (*.run.app)
+  await fastify.register(cors, {
+    origin: [
+      'http://localhost:3000',        // Local development
+      /^https:\/\/.*\.run\.app$/      // Any Cloud Run domain
+    ]
+  })
+
+  // Initialize services on startup
+  console.log('\n--- Initializing Services ---')
+  await initializeDatabase({ rebuild: options.rebuild })
+  await initializeEmbedder(options.embedder)
+  initializeQueryCache()
+  loadSynonyms()
+  if (process.env.WATCH_EMBEDDINGS === 'true') {
+    watchEmbeddings()
+  }
+  console.log('--- Services Ready ---\n')
+
+  // Keep cached query vectors for the next start (no-op unless QUERY_CACHE_PATH is set)
+  fastify.addHook('onClose', async () => {
+    await saveQueryCache().catch(() => {
+      // Already logged; closing must not fail over the cache
+    })
+  })
+
+  // Custom error handler for consistent error responses (set before the
+  // routes are registered, so their plugins inherit it)
+  fastify.setErrorHandler((error, request, reply) => {
+    // Embedding queue full or timed out (503); clients retry after the hint
+    if (error instanceof EmbedderBusyError) {
+      request.log.warn(error.message)
+      reply
+        .code(503)
+        .header('Retry-After', String(error.retryAfterSeconds))
+        .send({
+          statusCode: 503,
+          error: 'Service Unavailable',
+          message: error.message
+        })
+      return
+    }
+
+    request.log.error(error)
+
+    // Validation errors (400)
+    if (error.validation) {
+      reply.code(400).send({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: error.message
+      })
+      return
+    }
+
+    // Server errors (500)
+    reply.code(500).send({
+      statusCode: 500,
+      error: 'Internal Server Error',
+      message: error.message || 'An unexpected error occurred'
+    })
+  })
+
+  // Register API routes
+  await fastify.register(apiRoutes, { prefix: '/api' })
+  await fastify.register(adminRoutes, { prefix: '/api/admin' })
+
+  return fastify
+}
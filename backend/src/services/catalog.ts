@@ -0,0 +1,229 @@
+/**
+ * Catalogue browsing for backend
+ *
+ * Lists examples by metadata alone (no query text), with sorting and
+ * pagination, and reports the distinct values of metadata fields.
+ */
+
+import { withTable } from "../db/database.js";
+import { complexityLevels } from "../db/models.js";
+import { buildWhereClause, normalizeFilters, quote } from "./filters.js";
+import { computeFacets } from "./facets.js";
+import type {
+  BrowseSort,
+  FacetCounts,
+  FacetField,
+  SearchFilters,
+} from "../schemas/search.js";
+
+/**
+ * Columns returned in listings. Vectors and source code are left out to
+ * keep pages small; fetch a single example for those.
+ */
+const SUMMARY_COLUMNS = [
+  "example_id",
+  "repository",
+  "title",
+  "summary",
+  "complexity",
+  "language",
+  "feature_tags",
+  "features_to_demonstrate",
+  "target_users",
+  "folder_name",
+];
+
+/**
+ * Columns read for every matching example to sort a listing; the other
+ * summary columns are only read for the requested page
+ */
+const SORT_COLUMNS = ["example_id", "title", "complexity", "repository"];
+
+type SortKey = Pick<
+  ExampleSummary,
+  "example_id" | "title" | "complexity" | "repository"
+>;
+
+interface ExampleSummary {
+  example_id: string;
+  repository: string;
+  title: string;
+  summary: string;
+  complexity: string;
+  language: string;
+  feature_tags: string[];
+  features_to_demonstrate: string[];
+  target_users: string[];
+  folder_name?: string;
+}
+
+export interface BrowseOptions {
+  limit?: number;
+  offset?: number;
+  sort?: BrowseSort;
+  order?: "asc" | "desc";
+  filters?: SearchFilters;
+  facets?: FacetField[];
+  collection?: string; // Collection to list (default: the default collection)
+}
+
+export interface BrowseResponse {
+  results: ExampleSummary[];
+  filters: SearchFilters;
+  facets?: Record<string, FacetCounts>;
+  sort: BrowseSort;
+  order: "asc" | "desc";
+  count: number;
+  offset: number;
+  total: number;
+  hasMore: boolean;
+  processingTimeMs: number;
+}
+
+export interface TaxonomyValue {
+  value: string;
+  count: number;
+}
+
+export interface TaxonomyResponse {
+  field: FacetField;
+  values: TaxonomyValue[];
+  processingTimeMs: number;
+}
+
+/**
+ * List examples matching metadata filters
+ *
+ * Matching rows are sorted in memory on their sort columns alone, then the
+ * summaries of the requested page are fetched by example ID. Ties are
+ * broken by title and then example ID so pages are stable.
+ *
+ * @param options - Paging, sorting and filter options
+ * @returns Page of examples with the total number of matches
+ */
+export async function listExamples(
+  options: BrowseOptions = {}
+): Promise<BrowseResponse> {
+  const startTime = Date.now();
+  const {
+    limit = 20,
+    offset = 0,
+    sort = "title",
+    order = "asc",
+    facets: facetFields = [],
+  } = options;
+
+  if (limit < 1 || limit > 100) {
+    throw new Error("Limit must be between 1 and 100");
+  }
+  if (offset < 0) {
+    throw new Error("Offset must not be negative");
+  }
+
+  const filters = normalizeFilters(options.filters);
+  const where = buildWhereClause(filters);
+
+  const direction = order === "desc" ? -1 : 1;
+
+  const { total, results, facets } = await withTable(options.collection, async (table) => {
+    let query = table.query();
+    if (where) {
+      query = query.where(where);
+    }
+    const keys: SortKey[] = await query.select(SORT_COLUMNS).toArray();
+    keys.sort(
+      (a, b) =>
+        direction * compareBy(sort, a, b) ||
+        a.title.localeCompare(b.title) ||
+        a.example_id.localeCompare(b.example_id)
+    );
+
+    // Uses the scalar index on example_id
+    const pageIds = keys.slice(offset, offset + limit).map((key) => key.example_id);
+    const rows =
+      pageIds.length > 0
+        ? await table
+            .query()
+            .where(`example_id IN (${pageIds.map(quote).join(", ")})`)
+            .select(SUMMARY_COLUMNS)
+            .toArray()
+        : [];
+    const byId = new Map(rows.map((row: any) => [row.example_id, row]));
+
+    const facets =
+      facetFields.length > 0
+        ? await computeFacets([table], facetFields, where)
+        : undefined;
+    return {
+      total: keys.length,
+      results: pageIds.map((id) => toSummary(byId.get(id))),
+      facets,
+    };
+  });
+
+  return {
+    results,
+    filters,
+    facets,
+    sort,
+    order,
+    count: results.length,
+    offset,
+    total,
+    hasMore: offset + results.length < total,
+    processingTimeMs: Date.now() - startTime,
+  };
+}
+
+/**
+ * List the distinct values of a metadata field with example counts
+ *
+ * @param field - Field to enumerate, e.g. `feature_tags`
+ * @param filters - Optional filters restricting the counted examples
+ * @param collection - Collection to count (default: the default collection)
+ * @returns Values ordered by count (descending), then alphabetically
+ */
+export async function getTaxonomy(
+  field: FacetField,
+  filters: SearchFilters = {},
+  collection?: string
+): Promise<TaxonomyResponse> {
+  const startTime = Date.now();
+  const where = buildWhereClause(normalizeFilters(filters));
+
+  const facets = await withTable(collection, (table) =>
+    computeFacets([table], [field], where)
+  );
+  const values = Object.entries(facets[field] ?? {}).map(([value, count]) => ({
+    value,
+    count,
+  }));
+
+  return {
+    field,
+    values,
+    processingTimeMs: Date.now() - startTime,
+  };
+}
+
+function complexityRank(complexity: string): number {
+  // Unknown levels rank above the known ones
+  const index = complexityLevels.indexOf(complexity?.toLowerCase());
+  return index === -1 ? complexityLevels.length : index;
+}
+
+function compareBy(sort: BrowseSort, a: SortKey, b: SortKey): number {
+  if (sort === "complexity") {
+    return complexityRank(a.complexity) - complexityRank(b.complexity);
+  }
+  return (a[sort] ?? "").localeCompare(b[sort] ?? "");
+}
+
+function toSummary(row: any): ExampleSummary {
+  return {
+    ...row,
+    feature_tags: Array.from(row.feature_tags || []),
+    features_to_demonstrate: Array.from(row.features_to_demonstrate || []),
+    target_users: Array.from(row.target_users || []),
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Example curation for backend
+ *
+ * Upserts and deletes single examples in the live table, embedding new or
+ * changed examples with the backend's own model.
+ *
+ * Edits persist in the collection's LanceDB table across restarts, and are
+ * recorded as curated edits (see `db/curated.ts`) that are applied again
+ * whenever the table is rebuilt from its embeddings file (reload or
+ * `--rebuild`). The embeddings file itself is never changed.
+ */
+
+import {
+  assertQueryModel,
+  getDefaultCollection,
+  getTable,
+  refreshSuggestionIndex,
+  withTableLock,
+} from "../db/database.js";
+import { recordCuratedEdit } from "../db/curated.js";
+import { getEmbeddingModel, type AlgoKitExample } from "../db/models.js";
+import { embedQuery } from "./embedder.js";
+import { createEmbeddingText } from "./embedding-text.js";
+import { quote } from "./filters.js";
+
+/**
+ * Example metadata accepted for upserts (everything but ID and vector)
+ */
+export type ExampleInput = Omit<AlgoKitExample, "example_id" | "vector">;
+
+/**
+ * Insert or replace an example
+ *
+ * @param exampleId - ID of the example to write
+ * @param input - Example metadata; the vector is computed here
+ * @param collection - Collection to write to (default: the default collection)
+ * @returns The stored example and whether it was newly created
+ * @throws Error if the collection is unknown or holds another model's vectors
+ */
+export async function upsertExample(
+  exampleId: string,
+  input: ExampleInput,
+  collection: string = getDefaultCollection()
+): Promise<{ example: AlgoKitExample; created: boolean }> {
+  assertQueryModel([collection]);
+
+  // Only known fields are stored, whatever else the request carried
+  const example: AlgoKitExample = {
+    example_id: exampleId,
+    repository: input.repository,
+    title: input.title,
+    summary: input.summary,
+    complexity: input.complexity,
+    language: input.language,
+    feature_tags: input.feature_tags,
+    features_to_demonstrate: input.features_to_demonstrate,
+    target_users: input.target_users,
+    folder_name: input.folder_name,
+    source_code: input.source_code,
+    vector: await embedQuery(createEmbeddingText(input)),
+  };
+
+  return withTableLock(collection, async () => {
+    const table = getTable(collection);
+    const result = await table
+      .mergeInsert("example_id")
+      .whenMatchedUpdateAll()
+      .whenNotMatchedInsertAll()
+      .execute([
+        {
+          ...example,
+          folder_name: example.folder_name ?? null,
+          source_code: example.source_code ?? null,
+        },
+      ]);
+    await recordCuratedEdit(collection, exampleId, {
+      model: getEmbeddingModel().id,
+      example,
+    });
+
+    await refreshSuggestionIndex();
+    console.log(
+      `✓ ${result.numInsertedRows > 0 ? "Created" : "Updated"} example ${exampleId} in ${collection}`
+    );
+
+    return { example, created: result.numInsertedRows > 0 };
+  });
+}
+
+/**
+ * Delete an example
+ *
+ * @param exampleId - ID of the example to delete
+ * @param collection - Collection to delete from (default: the default collection)
+ * @returns False if no example had that ID
+ */
+export async function deleteExample(
+  exampleId: string,
+  collection: string = getDefaultCollection()
+): Promise<boolean> {
+  return withTableLock(collection, async () => {
+    const table = getTable(collection);
+    const predicate = `example_id = ${quote(exampleId)}`;
+
+    if ((await table.countRows(predicate)) === 0) {
+      return false;
+    }
+
+    await table.delete(predicate);
+    await recordCuratedEdit(collection, exampleId, {
+      model: getEmbeddingModel().id,
+      example: null,
+    });
+
+    await refreshSuggestionIndex();
+    console.log(`✓ Deleted example ${exampleId} from ${collection}`);
+
+    return true;
+  });
+}
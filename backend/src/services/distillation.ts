@@ -0,0 +1,174 @@
+/**
+ * Embeddings generation from distillation files
+ *
+ * Node port of embeddings/src/generate_embeddings.py. Reads distillation
+ * files (`{ repository, examples }`), embeds each example's text with the
+ * backend's model and produces records in the embeddings file layout.
+ */
+
+import { open, readFile } from "fs/promises";
+import { basename } from "path";
+import { embedTexts } from "./embedder.js";
+import {
+  createEmbeddingText,
+  type EmbeddableExample,
+} from "./embedding-text.js";
+
+/**
+ * Example as listed in a distillation file
+ */
+export interface DistilledExample extends EmbeddableExample {
+  example_id?: string;
+  repository?: string;
+  folder?: string;
+  source_code?: string;
+}
+
+/**
+ * Example record as written to an embeddings file (missing fields are null)
+ */
+export interface EmbeddingsRecord {
+  example_id: string | null;
+  repository: string | null;
+  title: string | null;
+  summary: string | null;
+  complexity: string | null;
+  language: string | null;
+  feature_tags: string[];
+  features_to_demonstrate: string[];
+  target_users: string[];
+  folder_name: string | null;
+  source_code: string | null;
+  vector: number[];
+}
+
+/**
+ * Examples embedded per provider call; progress is logged after each batch
+ */
+const EMBEDDING_BATCH_SIZE = 16;
+
+/**
+ * Check whether a JSON file holds distillation data rather than embeddings
+ *
+ * Distillation files are JSON objects; JSON embeddings files are arrays.
+ * Only the start of the file is read.
+ */
+export async function isDistillationFile(path: string): Promise<boolean> {
+  const handle = await open(path);
+  try {
+    const buffer = Buffer.alloc(1024);
+    let position = 0;
+    for (;;) {
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+      if (bytesRead === 0) return false;
+
+      const text = buffer.toString("utf-8", 0, bytesRead).trimStart();
+      if (text) return text.startsWith("{");
+      position += bytesRead;
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Load and merge examples from distillation files
+ *
+ * Each example is tagged with its file's repository, as in
+ * `load_examples` in the Python pipeline.
+ *
+ * @param paths - Distillation files, one per repository
+ * @throws Error if a file is invalid or an example ID appears twice
+ */
+export async function loadDistillationFiles(
+  paths: string[]
+): Promise<DistilledExample[]> {
+  const examples: DistilledExample[] = [];
+  const seenIds = new Map<string, string>();
+
+  for (const path of paths) {
+    const fileName = basename(path);
+    let data: any;
+    try {
+      data = JSON.parse(await readFile(path, "utf-8"));
+    } catch (error) {
+      throw new Error(
+        `Failed to parse ${fileName}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!Array.isArray(data?.examples)) {
+      throw new Error(`${fileName} has no examples array`);
+    }
+
+    const repository: string = data.repository ?? "unknown";
+    for (const example of data.examples as DistilledExample[]) {
+      const exampleId = example.example_id;
+      if (exampleId !== undefined) {
+        const firstFile = seenIds.get(exampleId);
+        if (firstFile !== undefined) {
+          throw new Error(
+            `Example ${exampleId} appears in both ${firstFile} and ${fileName}`
+          );
+        }
+        seenIds.set(exampleId, fileName);
+      }
+      examples.push({ ...example, repository });
+    }
+
+    console.log(
+      `✓ Loaded ${data.examples.length} examples from ${repository} (${fileName})`
+    );
+  }
+
+  return examples;
+}
+
+/**
+ * Embed examples and shape them as embeddings file records
+ *
+ * Uses the same text as the Python pipeline (`createEmbeddingText`) and the
+ * configured model, embedding `EMBEDDING_BATCH_SIZE` examples per call.
+ * The embedder must be initialized first.
+ *
+ * @param examples - Examples from `loadDistillationFiles`
+ * @returns Records in input order, ready for `writeEmbeddingsFile`
+ */
+export async function generateEmbeddings(
+  examples: DistilledExample[]
+): Promise<EmbeddingsRecord[]> {
+  console.log(`Generating embeddings for ${examples.length} examples...`);
+  const startTime = Date.now();
+  const records: EmbeddingsRecord[] = [];
+
+  for (let start = 0; start < examples.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = examples.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const vectors = await embedTexts(batch.map(createEmbeddingText));
+
+    // Same fields as prepare_output in the Python pipeline
+    batch.forEach((example, index) => {
+      records.push({
+        example_id: example.example_id ?? null,
+        repository: example.repository ?? null,
+        title: example.title ?? null,
+        summary: example.summary ?? null,
+        complexity: example.complexity ?? null,
+        language: example.language ?? null,
+        feature_tags: example.feature_tags ?? [],
+        features_to_demonstrate: example.features_to_demonstrate ?? [],
+        target_users: example.target_users ?? [],
+        folder_name: example.folder ?? null,
+        source_code: example.source_code ?? null,
+        vector: vectors[index],
+      });
+    });
+
+    const seconds = (Date.now() - startTime) / 1000;
+    console.log(
+      `  Embedded ${records.length}/${examples.length} examples (${seconds.toFixed(1)}s)`
+    );
+  }
+
+  console.log(`✓ Generated embeddings for all ${examples.length} examples`);
+  return records;
+}
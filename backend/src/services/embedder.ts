@@ -1,109 +1,195 @@
 /**
  * Query embedding service for backend
  *
- * Uses Transformers.js to convert search queries into 384-dimensional vectors.
- * Uses the same model as the Python pipeline (all-MiniLM-L6-v2) to ensure
- * vector compatibility for semantic search.
+ * Converts search queries into vectors with the configured embedding model
+ * (EMBEDDING_MODEL, default all-MiniLM-L6-v2, the same model as the Python
+ * pipeline), using the provider selected by EMBEDDER (see `embedders/`).
+ * Callers check that this model produced the vectors they compare against
+ * (see `assertQueryModel`).
+ *
+ * Configuration:
+ * - EMBEDDER: `transformers` (default), `http` or `fake`
+ * - EMBEDDING_URL: endpoint for the `http` provider
+ * - EMBEDDING_API_KEY: bearer token for the `http` provider (optional)
+ * - EMBEDDING_TIMEOUT_MS: `http` request or worker pool timeout (default: 30000)
+ * - EMBEDDING_WORKERS: worker threads for `transformers` (default: 1, 0 runs
+ *   the model on the main thread)
+ * - EMBEDDING_QUEUE_SIZE: requests allowed to wait for a worker (default: 64)
+ * - EMBEDDING_MODEL_DIR: vendored models directory; when set, `transformers`
+ *   loads the model from it only, never downloading (see `prepare-model.ts`)
  */
 
-import { pipeline, env } from '@xenova/transformers'
+import { getEmbeddingModel } from '../db/models.js'
+import {
+  EMBEDDER_PROVIDERS,
+  EmbedderBusyError,
+  type Embedder,
+  type EmbedderProvider,
+  type EmbedderQueueStats
+} from '../embedders/embedder.js'
+import { createFakeEmbedder } from '../embedders/fake.js'
+import { createHttpEmbedder } from '../embedders/http.js'
+import { createPooledEmbedder } from '../embedders/pool.js'
+import { createTransformersEmbedder } from '../embedders/transformers.js'
+
+const DEFAULT_TIMEOUT_MS = 30000
+const DEFAULT_WORKERS = 1
+const DEFAULT_QUEUE_SIZE = 64
+
+let embedder: Embedder | null = null
+let loading: Promise<void> | null = null
+
+/**
+ * Create the embedder selected by EMBEDDER for the configured model
+ *
+ * @throws Error if the provider or its settings are invalid
+ */
+export function createEmbedder(): Embedder {
+  const provider = (process.env.EMBEDDER || 'transformers') as EmbedderProvider
+  const model = getEmbeddingModel()
+
+  if (provider === 'transformers') {
+    const modelDir = process.env.EMBEDDING_MODEL_DIR || undefined
+    const size = readIntegerSetting('EMBEDDING_WORKERS', DEFAULT_WORKERS, 0)
+    if (size === 0) {
+      return createTransformersEmbedder(model, modelDir)
+    }
 
-// Configure cache directory for model files
-env.cacheDir = './.cache'
+    return createPooledEmbedder(model, {
+      size,
+      queueSize: readIntegerSetting('EMBEDDING_QUEUE_SIZE', DEFAULT_QUEUE_SIZE, 0),
+      timeoutMs: readIntegerSetting('EMBEDDING_TIMEOUT_MS', DEFAULT_TIMEOUT_MS, 1),
+      modelDir
+    })
+  }
+  if (provider === 'fake') {
+    return createFakeEmbedder(model.dimension)
+  }
+  if (provider === 'http') {
+    const url = process.env.EMBEDDING_URL
+    if (!url) {
+      throw new Error('EMBEDDER=http needs EMBEDDING_URL')
+    }
+
+    return createHttpEmbedder({
+      url,
+      model,
+      apiKey: process.env.EMBEDDING_API_KEY,
+      timeoutMs: readIntegerSetting('EMBEDDING_TIMEOUT_MS', DEFAULT_TIMEOUT_MS, 1)
+    })
+  }
+
+  throw new Error(`Unknown EMBEDDER '${provider}' (expected ${EMBEDDER_PROVIDERS.join(', ')})`)
+}
 
-let embedder: any = null
-let isLoading = false
+/**
+ * Read an integer environment setting
+ *
+ * @throws Error if the setting is not an integer of at least `minimum`
+ */
+function readIntegerSetting(name: string, fallback: number, minimum: number): number {
+  const configured = process.env[name]
+  const value = configured ? Number(configured) : fallback
+  if (!Number.isInteger(value) || value < minimum) {
+    throw new Error(
+      `${name} must be ${minimum > 0 ? 'a positive' : 'a non-negative'} integer, got '${configured}'`
+    )
+  }
+  return value
+}
 
 /**
- * Initialize the embedding model
+ * Initialize the embedder
  *
- * Downloads and loads the all-MiniLM-L6-v2 model (~25MB).
- * Should be called once on server startup for best performance.
+ * Loads the model or checks the endpoint of the given provider, or of the
+ * one configured by EMBEDDER. Should be called once on server startup for
+ * best performance. Passing a different provider later replaces the
+ * active one.
  *
- * @throws Error if model fails to load
+ * @param provider - Embedder to use instead of the configured one
+ * @throws Error if the model fails to load or is misconfigured
  */
-export async function initializeEmbedder(): Promise<void> {
-  if (embedder) {
+export async function initializeEmbedder(provider?: Embedder): Promise<void> {
+  if (embedder && (!provider || provider === embedder)) {
     console.log('Embedder already initialized')
     return
   }
 
-  if (isLoading) {
+  if (loading) {
     // Wait for existing initialization to complete
     console.log('Waiting for embedder initialization...')
-    while (isLoading) {
-      await new Promise(resolve => setTimeout(resolve, 100))
-    }
-    return
+    return loading
   }
 
-  isLoading = true
-
-  try {
-    console.log('Loading all-MiniLM-L6-v2 embedding model...')
-    console.log('This may take 10-20s on first run (~25MB download)')
-
-    embedder = await pipeline(
-      'feature-extraction',
-      'Xenova/all-MiniLM-L6-v2',
-      {
-        progress_callback: (progress: any) => {
-          if (progress.status === 'downloading') {
-            const percent = ((progress.loaded / progress.total) * 100).toFixed(1)
-            console.log(`  Downloading model: ${percent}%`)
-          } else if (progress.status === 'done') {
-            console.log('  ✓ Model downloaded')
-          }
-        }
-      }
-    )
-
-    console.log('✓ Embedding model loaded and ready')
-  } catch (error) {
-    console.error('Failed to load embedding model:', error)
-    throw new Error(
-      `Embedding model initialization failed: ${error instanceof Error ? error.message : String(error)}`
-    )
-  } finally {
-    isLoading = false
-  }
+  loading = (async () => {
+    try {
+      const next = provider ?? createEmbedder()
+      await next.initialize()
+      embedder = next
+    } catch (error) {
+      console.error('Failed to load embedding model:', error)
+      throw new Error(
+        `Embedding model initialization failed: ${error instanceof Error ? error.message : String(error)}`
+      )
+    } finally {
+      loading = null
+    }
+  })()
+  return loading
 }
 
 /**
  * Generate embedding vector for a query string
  *
- * Returns a 384-dimensional normalized vector for semantic search.
- * Uses mean pooling and L2 normalization to match Python pipeline.
+ * Returns a normalized vector of the configured dimension for semantic
+ * search.
  *
  * @param query - The search query text
- * @returns 384-dimensional embedding vector
+ * @returns Embedding vector
  * @throws Error if embedder is not initialized or query is invalid
  */
 export async function embedQuery(query: string): Promise<number[]> {
+  if (!query.trim()) {
+    throw new Error('Query cannot be empty')
+  }
+
+  const [embedding] = await embedTexts([query])
+  return embedding
+}
+
+/**
+ * Generate embedding vectors for several texts in one provider call
+ *
+ * @param texts - Texts to embed
+ * @returns One vector per text, in order
+ * @throws EmbedderBusyError if the embedder's queue is full or it timed out
+ * @throws Error if embedder is not initialized or returns unusable vectors
+ */
+export async function embedTexts(texts: string[]): Promise<number[][]> {
   if (!embedder) {
     throw new Error('Embedder not initialized. Call initializeEmbedder() first.')
   }
 
-  if (!query.trim()) {
-    throw new Error('Query cannot be empty')
-  }
+  const { dimension } = getEmbeddingModel()
 
   try {
-    // Generate embedding with same settings as Python pipeline
-    const output = await embedder(query, {
-      pooling: 'mean',    // Mean pooling (same as Python)
-      normalize: true     // L2 normalization (same as Python)
-    })
+    const embeddings = await embedder.embed(texts)
 
-    // Convert tensor to array
-    const embedding: number[] = Array.from(output.data)
-
-    if (embedding.length !== 384) {
-      throw new Error(`Expected 384-dimensional vector, got ${embedding.length}`)
+    if (embeddings.length !== texts.length) {
+      throw new Error(`Expected ${texts.length} vectors, got ${embeddings.length}`)
+    }
+    for (const embedding of embeddings) {
+      if (embedding.length !== dimension) {
+        throw new Error(`Expected ${dimension}-dimensional vector, got ${embedding.length}`)
+      }
     }
 
-    return embedding
+    return embeddings
   } catch (error) {
+    if (error instanceof EmbedderBusyError) {
+      // Overload, not failure: callers answer 503 and the client retries
+      throw error
+    }
     console.error('Failed to generate embedding:', error)
     throw new Error(
       `Embedding generation failed: ${error instanceof Error ? error.message : String(error)}`
@@ -116,4 +202,18 @@ export async function embedQuery(query: string): Promise<number[]> {
  */
 export function isInitialized(): boolean {
   return embedder !== null
-}
\ No newline at end of file
+}
+
+/**
+ * Provider of the active embedder, or null before initialization
+ */
+export function getEmbedderProvider(): EmbedderProvider | null {
+  return embedder?.provider ?? null
+}
+
+/**
+ * Queue of the active embedder, or null if it does not queue requests
+ */
+export function getEmbedderQueueStats(): EmbedderQueueStats | null {
+  return embedder?.getQueueStats?.() ?? null
+}
@@ -0,0 +1,68 @@
+/**
+ * Document text for example embeddings
+ *
+ * Port of `create_embedding_text` in embeddings/src/generate_embeddings.py.
+ * Examples embedded by the backend must go through the same text as those
+ * embedded by the Python pipeline, or their vectors are not comparable.
+ * Keep the two in sync.
+ */
+
+export interface EmbeddableExample {
+  title?: string;
+  summary?: string;
+  feature_tags?: string[];
+  features_to_demonstrate?: string[];
+  complexity?: string;
+  target_users?: string[];
+  language?: string;
+}
+
+/**
+ * Build the text embedded for an example
+ *
+ * Combines title and summary (primary content), tags and demonstrated
+ * features (categorisation), complexity and target users (filtering
+ * context) and language. Empty lists are left out.
+ *
+ * @param example - Example metadata
+ * @returns Text such as `Title: ... Description: ... Language: typescript`
+ */
+export function createEmbeddingText(example: EmbeddableExample): string {
+  const parts: string[] = [];
+
+  // Primary content
+  if (example.title !== undefined) {
+    parts.push(`Title: ${example.title}`);
+  }
+
+  if (example.summary !== undefined) {
+    parts.push(`Description: ${example.summary}`);
+  }
+
+  // Features and tags
+  if (example.feature_tags && example.feature_tags.length > 0) {
+    parts.push(`Tags: ${example.feature_tags.join(", ")}`);
+  }
+
+  if (
+    example.features_to_demonstrate &&
+    example.features_to_demonstrate.length > 0
+  ) {
+    parts.push(`Features: ${example.features_to_demonstrate.join(", ")}`);
+  }
+
+  // Context metadata
+  if (example.complexity !== undefined) {
+    parts.push(`Complexity: ${example.complexity}`);
+  }
+
+  if (example.target_users && example.target_users.length > 0) {
+    parts.push(`Target Users: ${example.target_users.join(", ")}`);
+  }
+
+  if (example.language !== undefined) {
+    parts.push(`Language: ${example.language}`);
+  }
+
+  return parts.join(". ");
+}
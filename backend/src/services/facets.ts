@@ -0,0 +1,84 @@
+/**
+ * Facet counting for backend search and browse
+ *
+ * Counts how many candidate examples carry each value of the requested
+ * metadata fields, so the UI can offer drill-down filters.
+ */
+
+import type { Table } from "@lancedb/lancedb";
+import { fullTextColumns, MAX_KEYWORD_MATCHES } from "../db/models.js";
+import type { FacetField, FacetCounts } from "../schemas/search.js";
+
+/**
+ * Count facet values over a set of rows
+ *
+ * List fields (feature_tags, target_users) count each value once per row.
+ * Values are ordered by count (descending), then alphabetically.
+ *
+ * @param rows - Candidate rows containing the facet columns
+ * @param fields - Facet fields to count
+ * @returns Map of field to value counts
+ */
+export function countFacets(
+  rows: any[],
+  fields: FacetField[]
+): Record<string, FacetCounts> {
+  const facets: Record<string, FacetCounts> = {};
+
+  for (const field of fields) {
+    const counts = new Map<string, number>();
+
+    for (const row of rows) {
+      const raw = row[field];
+      if (raw === null || raw === undefined) continue;
+
+      const values =
+        typeof raw === "string" ? [raw] : new Set<string>(Array.from(raw));
+      for (const value of values) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+
+    facets[field] = Object.fromEntries(
+      [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    );
+  }
+
+  return facets;
+}
+
+/**
+ * Compute facet counts over the examples matching a query and filters
+ *
+ * Vector ranking scores every example, so for vector and hybrid searches
+ * the candidate set is every example passing the filters. For keyword
+ * searches it is narrowed to examples matching the query terms.
+ *
+ * @param tables - Tables of the collections being searched
+ * @param fields - Facet fields to count
+ * @param where - LanceDB predicate built from the filters
+ * @param keywordQuery - Full-text query restricting the candidates
+ * @returns Map of field to value counts
+ */
+export async function computeFacets(
+  tables: Table[],
+  fields: FacetField[],
+  where?: string,
+  keywordQuery?: string
+): Promise<Record<string, FacetCounts>> {
+  const perTable = await Promise.all(
+    tables.map((table) => {
+      let query = table.query();
+      if (keywordQuery) {
+        query = query
+          .fullTextSearch(keywordQuery, { columns: fullTextColumns })
+          .limit(MAX_KEYWORD_MATCHES);
+      }
+      if (where) {
+        query = query.where(where);
+      }
+      return query.select(fields).toArray();
+    })
+  );
+  return countFacets(perTable.flat(), fields);
+}
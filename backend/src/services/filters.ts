@@ -0,0 +1,182 @@
+/**
+ * Metadata filter translation for backend
+ *
+ * Converts structured search filters into a LanceDB SQL predicate so they
+ * can be applied as a pre-filter, before nearest-neighbour ranking.
+ */
+
+import type {
+  ExcludeFilter,
+  FilterQuerystring,
+  ListFilter,
+  SearchFilters,
+} from "../schemas/search.js";
+
+const SCALAR_FIELDS = ["language", "complexity", "repository"] as const;
+const LIST_FIELDS = ["feature_tags", "target_users"] as const;
+const LIST_MODES = ["all", "any", "none"] as const;
+
+/**
+ * Quote a string literal for use in a LanceDB SQL predicate
+ */
+export function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function listLiteral(values: string[]): string {
+  return `[${values.map(quote).join(", ")}]`;
+}
+
+function listConditions(column: string, filter?: ListFilter): string[] {
+  if (!filter) return [];
+
+  const conditions: string[] = [];
+  if (filter.all && filter.all.length > 0) {
+    conditions.push(`array_has_all(${column}, ${listLiteral(filter.all)})`);
+  }
+  if (filter.any && filter.any.length > 0) {
+    conditions.push(`array_has_any(${column}, ${listLiteral(filter.any)})`);
+  }
+  if (filter.none && filter.none.length > 0) {
+    conditions.push(`NOT array_has_any(${column}, ${listLiteral(filter.none)})`);
+  }
+  return conditions;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values.map((value) => value.trim()).filter(Boolean))];
+}
+
+/**
+ * Drop empty filter entries so the applied filters can be echoed back
+ *
+ * @param filters - Filters as received in the request
+ * @returns Filters with unset fields and empty lists removed
+ */
+export function normalizeFilters(filters: SearchFilters = {}): SearchFilters {
+  const normalized: SearchFilters = {};
+
+  for (const key of SCALAR_FIELDS) {
+    const value = filters[key]?.trim();
+    if (value) normalized[key] = value;
+  }
+
+  for (const key of LIST_FIELDS) {
+    const filter = filters[key];
+    if (!filter) continue;
+
+    const list: ListFilter = {};
+    for (const mode of LIST_MODES) {
+      const values = unique(filter[mode] ?? []);
+      if (values.length > 0) list[mode] = values;
+    }
+    if (Object.keys(list).length > 0) normalized[key] = list;
+  }
+
+  const exclude: ExcludeFilter = {};
+  for (const key of SCALAR_FIELDS) {
+    const values = unique(filters.exclude?.[key] ?? []);
+    if (values.length > 0) exclude[key] = values;
+  }
+  if (Object.keys(exclude).length > 0) normalized.exclude = exclude;
+
+  return normalized;
+}
+
+/**
+ * Combine two sets of filters
+ *
+ * Single-valued fields from `overrides` win; list and exclusion values are
+ * unioned.
+ *
+ * @param base - Filters to start from
+ * @param overrides - Filters layered on top
+ * @returns Normalized combined filters
+ */
+export function mergeFilters(
+  base: SearchFilters = {},
+  overrides: SearchFilters = {}
+): SearchFilters {
+  const merged: SearchFilters = { ...base };
+
+  for (const key of SCALAR_FIELDS) {
+    if (overrides[key]) merged[key] = overrides[key];
+  }
+
+  for (const key of LIST_FIELDS) {
+    const list: ListFilter = {};
+    for (const mode of LIST_MODES) {
+      list[mode] = [
+        ...(base[key]?.[mode] ?? []),
+        ...(overrides[key]?.[mode] ?? []),
+      ];
+    }
+    merged[key] = list;
+  }
+
+  const exclude: ExcludeFilter = {};
+  for (const key of SCALAR_FIELDS) {
+    exclude[key] = [
+      ...(base.exclude?.[key] ?? []),
+      ...(overrides.exclude?.[key] ?? []),
+    ];
+  }
+  merged.exclude = exclude;
+
+  return normalizeFilters(merged);
+}
+
+/**
+ * Convert flat querystring filters (used by GET endpoints) to search filters
+ *
+ * @param query - Parsed querystring, e.g. `?language=python&feature_tags_any=box`
+ * @returns Equivalent structured filters
+ */
+export function filtersFromQuerystring(query: FilterQuerystring): SearchFilters {
+  return normalizeFilters({
+    language: query.language,
+    complexity: query.complexity,
+    repository: query.repository,
+    feature_tags: {
+      all: query.feature_tags_all,
+      any: query.feature_tags_any,
+      none: query.feature_tags_none,
+    },
+    target_users: {
+      all: query.target_users_all,
+      any: query.target_users_any,
+      none: query.target_users_none,
+    },
+    exclude: {
+      language: query.exclude_language,
+      complexity: query.exclude_complexity,
+      repository: query.exclude_repository,
+    },
+  });
+}
+
+/**
+ * Build a LanceDB `where` predicate from structured filters
+ *
+ * @param filters - Normalized search filters
+ * @returns SQL predicate, or undefined when no filter is set
+ */
+export function buildWhereClause(filters: SearchFilters = {}): string | undefined {
+  const conditions: string[] = [];
+
+  for (const key of SCALAR_FIELDS) {
+    const value = filters[key];
+    if (value) conditions.push(`${key} = ${quote(value)}`);
+
+    const excluded = filters.exclude?.[key];
+    if (excluded && excluded.length > 0) {
+      conditions.push(`${key} NOT IN (${excluded.map(quote).join(", ")})`);
+    }
+  }
+
+  for (const key of LIST_FIELDS) {
+    conditions.push(...listConditions(key, filters[key]));
+  }
+
+  return conditions.length > 0 ? conditions.join(" AND ") : undefined;
+}
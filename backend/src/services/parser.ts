@@ -0,0 +1,107 @@
+/**
+ * Inline query syntax parser for backend search
+ *
+ * Pulls qualifiers such as `lang:python`, `tag:"box storage"` or
+ * `-complexity:complex` out of a search query and turns them into
+ * structured filters, leaving the free text to be embedded.
+ */
+
+import type {
+  FacetField,
+  ParsedQuery,
+  SearchFilters,
+} from "../schemas/search.js";
+
+/**
+ * Qualifier keys accepted in queries, mapped to the field they filter
+ */
+const QUALIFIER_FIELDS: Record<string, FacetField> = {
+  lang: "language",
+  language: "language",
+  complexity: "complexity",
+  level: "complexity",
+  repo: "repository",
+  repository: "repository",
+  tag: "feature_tags",
+  tags: "feature_tags",
+  user: "target_users",
+  users: "target_users",
+};
+
+/**
+ * Matches, in order of preference:
+ * 1. `[-]key:"quoted value"` or `[-]key:value`
+ * 2. a `"quoted phrase"`
+ * 3. any other whitespace-delimited word
+ */
+const TOKEN_PATTERN = /(-?)([A-Za-z_]+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/g;
+
+export interface ParsedSearchQuery {
+  parsed: ParsedQuery;
+  filters: SearchFilters;
+}
+
+/**
+ * Parse inline qualifiers out of a search query
+ *
+ * Unknown `key:value` tokens are kept as free text, so identifiers that
+ * contain a colon still reach the embedding. Quoted phrases only group
+ * words: they are reported in `phrases` and searched as loose words, not
+ * matched as exact phrases. Repeated positive qualifiers
+ * for a single-valued field keep the last value; list fields (tags, users)
+ * require every positive value.
+ *
+ * @param query - Raw query, e.g. `box storage lang:python -tag:deprecated`
+ * @returns Parsed structure and the filters it implies
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const words: string[] = [];
+  const phrases: string[] = [];
+  const qualifiers: ParsedQuery["qualifiers"] = [];
+  const filters: SearchFilters = {};
+
+  for (const match of query.matchAll(TOKEN_PATTERN)) {
+    const [raw, negation, key, quotedValue, bareValue, phrase, word] = match;
+    const field = key ? QUALIFIER_FIELDS[key.toLowerCase()] : undefined;
+    const value = (quotedValue ?? bareValue ?? "").trim();
+
+    if (field && value) {
+      const negated = negation === "-";
+      qualifiers.push({ field, value, negated, raw });
+      applyQualifier(filters, field, value, negated);
+    } else if (phrase !== undefined) {
+      if (phrase.trim()) {
+        phrases.push(phrase.trim());
+        words.push(phrase.trim());
+      }
+    } else {
+      words.push(word ?? raw);
+    }
+  }
+
+  return {
+    parsed: { text: words.join(" "), phrases, qualifiers },
+    filters,
+  };
+}
+
+function applyQualifier(
+  filters: SearchFilters,
+  field: FacetField,
+  value: string,
+  negated: boolean
+): void {
+  if (field === "feature_tags" || field === "target_users") {
+    const list = (filters[field] ??= {});
+    const mode = negated ? "none" : "all";
+    list[mode] = [...(list[mode] ?? []), value];
+    return;
+  }
+
+  if (negated) {
+    const exclude = (filters.exclude ??= {});
+    exclude[field] = [...(exclude[field] ?? []), value];
+  } else {
+    filters[field] = value;
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Query embedding cache for backend
+ *
+ * Keeps the vectors of recent search queries in a bounded LRU cache keyed
+ * on the embedding model and the normalised query text, so repeated
+ * queries skip the model. Concurrent identical queries share one in-flight
+ * embedding instead of each computing it.
+ *
+ * Queries are trimmed and have their whitespace collapsed, and that text is
+ * both the cache key and what gets embedded. Casing is kept, since
+ * case-sensitive models (e.g. code models) embed `AtomicTransactionComposer`
+ * differently from its lowercase, so each casing is cached on its own.
+ *
+ * Configuration:
+ * - QUERY_CACHE_SIZE: queries kept (default: 1000, 0 disables the cache)
+ * - QUERY_CACHE_PATH: JSON file the cache is loaded from on startup and
+ *   saved to after changes and on shutdown (default: not persisted)
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { mkdir, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { getEmbeddingModel } from "../db/models.js";
+import { embedTexts } from "./embedder.js";
+
+/**
+ * How a query vector was obtained: from the cache, from an identical
+ * query already being embedded, or from the model
+ */
+export type QueryCacheOutcome = "hit" | "shared" | "miss";
+
+export interface CachedQueryEmbedding {
+  vector: number[];
+  cache: QueryCacheOutcome;
+}
+
+export interface QueryCacheStats {
+  enabled: boolean;
+  size: number; // Queries currently cached
+  capacity: number; // QUERY_CACHE_SIZE
+  hits: number;
+  shared: number; // Lookups that joined an in-flight embedding
+  misses: number;
+  hitRate: number; // (hits + shared) / lookups, 0 before the first lookup
+  persisted: boolean; // Whether QUERY_CACHE_PATH is set
+}
+
+interface PersistedCache {
+  model: string;
+  entries: [string, number[]][];
+}
+
+const DEFAULT_CAPACITY = 1000;
+
+/**
+ * Delay between a change and writing the cache file, so a burst of new
+ * queries is saved once
+ */
+const SAVE_DELAY_MS = 5000;
+
+// Map iteration order is insertion order: the first key is least recently used
+const entries = new Map<string, number[]>();
+const inFlight = new Map<string, Promise<number[]>>();
+let capacity = DEFAULT_CAPACITY;
+let persistPath: string | null = null;
+let saveTimer: NodeJS.Timeout | null = null;
+let hits = 0;
+let shared = 0;
+let misses = 0;
+
+function normalize(query: string): string {
+  return query.trim().replace(/\s+/g, " ");
+}
+
+function cacheKey(text: string): string {
+  return `${getEmbeddingModel().id}\n${text}`;
+}
+
+function remember(key: string, vector: number[]): void {
+  entries.delete(key);
+  entries.set(key, vector);
+  while (entries.size > capacity) {
+    entries.delete(entries.keys().next().value as string);
+  }
+  scheduleSave();
+}
+
+function scheduleSave(): void {
+  if (!persistPath || saveTimer) return;
+
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    saveQueryCache().catch(() => {
+      // Already logged; the next change retries
+    });
+  }, SAVE_DELAY_MS);
+  // Never keep the process alive just to save the cache
+  saveTimer.unref();
+}
+
+/**
+ * Configure the cache and load the persisted entries
+ *
+ * Reads QUERY_CACHE_SIZE and QUERY_CACHE_PATH and clears anything cached
+ * before. Entries saved for a different embedding model are dropped. A
+ * missing or unreadable cache file only means a cold start.
+ *
+ * @throws Error if QUERY_CACHE_SIZE is invalid
+ */
+export function initializeQueryCache(): void {
+  const configuredSize = process.env.QUERY_CACHE_SIZE;
+  const size = configuredSize ? Number(configuredSize) : DEFAULT_CAPACITY;
+  if (!Number.isInteger(size) || size < 0) {
+    throw new Error(
+      `QUERY_CACHE_SIZE must be a non-negative integer, got '${configuredSize}'`
+    );
+  }
+
+  capacity = size;
+  persistPath = size > 0 ? process.env.QUERY_CACHE_PATH || null : null;
+  entries.clear();
+  hits = shared = misses = 0;
+
+  if (!persistPath || !existsSync(persistPath)) {
+    console.log(
+      size > 0 ? `✓ Query cache ready (${size} queries)` : "Query cache disabled"
+    );
+    return;
+  }
+
+  try {
+    const persisted: PersistedCache = JSON.parse(
+      readFileSync(persistPath, "utf-8")
+    );
+    const { id, dimension } = getEmbeddingModel();
+
+    if (persisted.model === id && Array.isArray(persisted.entries)) {
+      // Saved least recently used first, so the newest survive the capacity
+      for (const [text, vector] of persisted.entries.slice(-capacity)) {
+        if (typeof text === "string" && vector?.length === dimension) {
+          entries.set(cacheKey(text), vector);
+        }
+      }
+    }
+    console.log(
+      `✓ Query cache ready (${entries.size} of ${size} queries loaded from ${persistPath})`
+    );
+  } catch (error) {
+    console.warn(
+      `Ignoring unreadable query cache ${persistPath}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Write the cache to QUERY_CACHE_PATH, if set
+ *
+ * The file is written next to its destination and renamed into place, so
+ * a crash mid-write leaves the previous save intact.
+ */
+export async function saveQueryCache(): Promise<void> {
+  if (!persistPath) return;
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+
+  const prefix = cacheKey("");
+  const persisted: PersistedCache = {
+    model: getEmbeddingModel().id,
+    entries: [...entries].map(([key, vector]) => [
+      key.slice(prefix.length),
+      vector,
+    ]),
+  };
+
+  const tempPath = `${persistPath}.tmp-${process.pid}`;
+  try {
+    await mkdir(dirname(persistPath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(persisted), "utf-8");
+    await rename(tempPath, persistPath);
+  } catch (error) {
+    console.error("Failed to save query cache:", error);
+    throw error;
+  }
+}
+
+/**
+ * Embed a search query, reusing cached and in-flight vectors
+ *
+ * Failed embeddings are not cached, so the next identical query retries.
+ *
+ * @param query - The search query text
+ * @returns The vector and whether the cache supplied it
+ * @throws Error if the query is empty or embedding fails
+ */
+export async function embedQueryCached(
+  query: string
+): Promise<CachedQueryEmbedding> {
+  const [embedded] = await embedQueriesCached([query]);
+  return embedded;
+}
+
+/**
+ * Embed several search queries, computing every uncached one in a single
+ * embedder call
+ *
+ * A query repeated within the list is embedded once; its later copies
+ * count as shared.
+ *
+ * @param queries - Search query texts
+ * @returns One vector and cache outcome per query, in order
+ * @throws Error if a query is empty or embedding fails
+ */
+export async function embedQueriesCached(
+  queries: string[]
+): Promise<CachedQueryEmbedding[]> {
+  const texts = queries.map(normalize);
+  if (texts.some((text) => !text)) {
+    throw new Error("Query cannot be empty");
+  }
+
+  if (capacity === 0) {
+    misses += texts.length;
+    const vectors = await embedTexts(texts);
+    return vectors.map((vector) => ({ vector, cache: "miss" }));
+  }
+
+  const keys = texts.map(cacheKey);
+  const outcomes: QueryCacheOutcome[] = [];
+  const missed = new Map<string, string>(); // Key -> text, first occurrence only
+
+  for (const [i, key] of keys.entries()) {
+    const cached = entries.get(key);
+    if (cached) {
+      hits++;
+      // Move to the most recently used end
+      entries.delete(key);
+      entries.set(key, cached);
+      outcomes.push("hit");
+    } else if (inFlight.has(key) || missed.has(key)) {
+      shared++;
+      outcomes.push("shared");
+    } else {
+      misses++;
+      missed.set(key, texts[i]);
+      outcomes.push("miss");
+    }
+  }
+
+  if (missed.size > 0) {
+    const embedding = embedTexts([...missed.values()]);
+    [...missed.keys()].forEach((key, i) => {
+      inFlight.set(
+        key,
+        embedding.then((vectors) => vectors[i])
+      );
+    });
+  }
+
+  try {
+    // Cached vectors may be evicted meanwhile, so read them before awaiting
+    const pending = keys.map(
+      (key, i) => (outcomes[i] === "hit" ? entries.get(key)! : inFlight.get(key)!)
+    );
+    const vectors = await Promise.all(pending);
+
+    for (const key of missed.keys()) {
+      remember(key, vectors[keys.indexOf(key)]);
+    }
+    return vectors.map((vector, i) => ({ vector, cache: outcomes[i] }));
+  } finally {
+    for (const key of missed.keys()) {
+      inFlight.delete(key);
+    }
+  }
+}
+
+/**
+ * Cache size and hit counts since startup
+ */
+export function getQueryCacheStats(): QueryCacheStats {
+  const lookups = hits + shared + misses;
+  return {
+    enabled: capacity > 0,
+    size: entries.size,
+    capacity,
+    hits,
+    shared,
+    misses,
+    hitRate: lookups > 0 ? (hits + shared) / lookups : 0,
+    persisted: persistPath !== null,
+  };
+}
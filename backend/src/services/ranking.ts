@@ -0,0 +1,150 @@
+/**
+ * Ranking utilities for backend search
+ *
+ * Pure helpers for combining and scoring candidate lists produced by the
+ * vector and full-text searches.
+ */
+
+/**
+ * Constant from the original reciprocal rank fusion paper. Dampens the
+ * influence of the very top ranks so that one list cannot dominate.
+ */
+export const RRF_K = 60;
+
+/**
+ * Squared L2 distance between two vectors
+ *
+ * Matches the default `l2` metric LanceDB reports in `_distance`, so it can
+ * be used to score candidates that did not come from the vector search.
+ */
+export function squaredL2Distance(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return sum;
+}
+
+/**
+ * Fuse several ranked ID lists with reciprocal rank fusion
+ *
+ * Each list contributes 1 / (k + rank) for every ID it contains, with ranks
+ * starting at 1. IDs missing from a list receive nothing from it.
+ *
+ * @param rankings - Ranked lists of IDs, best first
+ * @param k - Smoothing constant (default: 60)
+ * @returns Fused score per ID (higher is better)
+ */
+export function reciprocalRankFusion(
+  rankings: string[][],
+  k: number = RRF_K
+): Map<string, number> {
+  const scores = new Map<string, number>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (k + index + 1));
+    });
+  }
+
+  return scores;
+}
+
+/**
+ * Cosine similarity between two vectors (-1 to 1, higher is more similar)
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Re-order items with maximal marginal relevance (MMR)
+ *
+ * Greedily picks the item maximising
+ * `(1 - diversity) * relevance - diversity * max similarity to picked items`,
+ * so near-duplicates of already picked items sink down the list.
+ *
+ * @param items - Candidates, best first
+ * @param relevance - Relevance of each item to the query (0-1)
+ * @param vectors - Embedding of each item, aligned with `items`
+ * @param diversity - Trade-off from 0 (pure relevance) to 1 (pure novelty)
+ * @returns All items in MMR order
+ */
+export function maximalMarginalRelevance<T>(
+  items: T[],
+  relevance: number[],
+  vectors: ArrayLike<number>[],
+  diversity: number
+): T[] {
+  const remaining = items.map((_, index) => index);
+  const maxSimilarity = items.map(() => -Infinity);
+  const ordered: T[] = [];
+
+  while (remaining.length > 0) {
+    let bestPosition = 0;
+    let bestScore = -Infinity;
+
+    remaining.forEach((index, position) => {
+      const redundancy = ordered.length > 0 ? maxSimilarity[index] : 0;
+      const score = (1 - diversity) * relevance[index] - diversity * redundancy;
+      // Strict comparison keeps the original order on ties
+      if (score > bestScore) {
+        bestScore = score;
+        bestPosition = position;
+      }
+    });
+
+    const [picked] = remaining.splice(bestPosition, 1);
+    ordered.push(items[picked]);
+
+    for (const index of remaining) {
+      const similarity = cosineSimilarity(vectors[picked], vectors[index]);
+      if (similarity > maxSimilarity[index]) maxSimilarity[index] = similarity;
+    }
+  }
+
+  return ordered;
+}
+
+/**
+ * Collapse items sharing a group key into their best-ranked member
+ *
+ * Items without a key (null, undefined or empty) are never grouped.
+ *
+ * @param items - Items, best first
+ * @param key - Group key of each item
+ * @returns One entry per group in order of its best member, with the
+ *   remaining members as `variants`
+ */
+export function collapseByKey<T>(
+  items: T[],
+  key: (item: T) => string | null | undefined
+): { item: T; variants: T[] }[] {
+  const groups: { item: T; variants: T[] }[] = [];
+  const byKey = new Map<string, { item: T; variants: T[] }>();
+
+  for (const item of items) {
+    const groupKey = key(item);
+    const existing = groupKey ? byKey.get(groupKey) : undefined;
+
+    if (existing) {
+      existing.variants.push(item);
+      continue;
+    }
+
+    const group: { item: T; variants: T[] } = { item, variants: [] };
+    groups.push(group);
+    if (groupKey) byKey.set(groupKey, group);
+  }
+
+  return groups;
+}
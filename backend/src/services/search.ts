@@ -1,12 +1,52 @@
 /**
  * Vector search orchestration for backend
  *
- * Combines the embedding service and database to perform semantic search
- * over AlgoKit examples.
+ * Combines the embedding service and database to perform semantic, keyword
+ * or hybrid search over AlgoKit examples in one or more collections.
  */
 
-import { getTable } from "../db/database.js";
-import { embedQuery } from "./embedder.js";
+import type { Table } from "@lancedb/lancedb";
+import {
+  acquireTable,
+  assertQueryModel,
+  getDefaultCollection,
+  withTable,
+  ModelMismatchError,
+} from "../db/database.js";
+import { fullTextColumns, MAX_KEYWORD_MATCHES } from "../db/models.js";
+import { EmbedderBusyError } from "../embedders/embedder.js";
+import {
+  embedQueriesCached,
+  embedQueryCached,
+  type CachedQueryEmbedding,
+  type QueryCacheOutcome,
+} from "./query-cache.js";
+import {
+  buildWhereClause,
+  mergeFilters,
+  normalizeFilters,
+  quote,
+} from "./filters.js";
+import { parseSearchQuery } from "./parser.js";
+import { recordQuery } from "./suggest.js";
+import { expandQuery } from "./synonyms.js";
+import { computeFacets } from "./facets.js";
+import {
+  collapseByKey,
+  cosineSimilarity,
+  maximalMarginalRelevance,
+  reciprocalRankFusion,
+  squaredL2Distance,
+} from "./ranking.js";
+import type {
+  FacetCounts,
+  FacetField,
+  GroupByField,
+  ParsedQuery,
+  QueryExpansion,
+  SearchFilters,
+  SearchMode,
+} from "../schemas/search.js";
 
 interface AlgoKitExample {
   example_id: string;
@@ -23,126 +63,970 @@ interface AlgoKitExample {
   vector: number[];
 }
 
+interface SearchScores {
+  vector: number | null; // Similarity percentage, null when not embedded
+  keyword: number | null; // BM25 score, null when no keyword match
+  fused: number; // Reciprocal rank fusion score (higher is better)
+  rank: number; // 1-based position in the final ranking
+}
+
+interface SearchResultVariant {
+  example_id: string;
+  collection: string;
+  repository: string;
+  language: string;
+  title: string;
+  folder_name?: string;
+  similarity?: number;
+}
+
 interface SearchResult extends AlgoKitExample {
-  _distance: number; // L2 distance from LanceDB (0-2, lower is better)
-  similarity: number; // Similarity percentage (0-100, higher is better)
+  collection: string; // Collection the example was found in
+  _distance?: number; // L2 distance from LanceDB (0-2, lower is better)
+  similarity?: number; // Similarity percentage (0-100, higher is better)
+  scores: SearchScores;
+  variants?: SearchResultVariant[]; // Collapsed examples when grouping
+}
+
+/**
+ * Example row as read from a table
+ *
+ * List columns arrive as Apache Arrow vectors until `toExample` converts
+ * them. LanceDB adds `_distance` to vector search rows and `_score` to
+ * keyword search rows.
+ */
+interface ExampleRow
+  extends Omit<
+    AlgoKitExample,
+    "vector" | "feature_tags" | "features_to_demonstrate" | "target_users"
+  > {
+  vector: Iterable<number>;
+  feature_tags: Iterable<string> | null;
+  features_to_demonstrate: Iterable<string> | null;
+  target_users: Iterable<string> | null;
+  _distance?: number; // L2 distance (vector search)
+  _score?: number; // BM25 score (keyword search)
+}
+
+/**
+ * Search candidate: a row tagged with the collection it was found in
+ */
+interface SearchHit extends ExampleRow {
+  collection: string;
+}
+
+export interface SearchOptions {
+  limit?: number; // Maximum number of results (default: 10, max: 50)
+  offset?: number; // Number of ranked results to skip (default: 0)
+  filters?: SearchFilters; // Metadata filters applied before ranking
+  mode?: SearchMode; // Ranking source (default: vector)
+  facets?: FacetField[]; // Fields to return value counts for
+  diversity?: number; // MMR trade-off, 0 = relevance only (default: 0)
+  groupBy?: GroupByField; // Collapse examples sharing this field
+  expand?: boolean; // Apply synonym/acronym expansion (default: true)
+  nprobes?: number; // ANN index partitions to probe (default: LanceDB's 20)
+  refineFactor?: number; // Re-rank this many times the candidates exactly
+  collections?: string[]; // Collections to search (default: the default collection)
+}
+
+/**
+ * Recall vs. latency settings for vector queries
+ *
+ * Only take effect when the table has a vector index; flat scans are exact.
+ */
+export interface AnnOptions {
+  nprobes?: number;
+  refineFactor?: number;
+}
+
+/**
+ * A search's query and settings resolved, ready to embed and execute
+ */
+interface PreparedSearch {
+  query: string;
+  parsed: ParsedQuery;
+  filters: SearchFilters;
+  where: string | undefined;
+  searchText: string; // Free text after expansion; embedded and keyword-matched
+  expansions: QueryExpansion[];
+  mode: SearchMode;
+  collections?: string[];
+  facetFields: FacetField[];
+  diversity: number;
+  groupBy?: GroupByField;
+  reranks: boolean;
+  nprobes?: number;
+  refineFactor?: number;
+  clampedLimit: number;
+  clampedOffset: number;
+  pageEnd: number;
+  candidateLimit: number;
+  startTime: number;
+}
+
+export interface BatchSearch {
+  query: string;
+  options: SearchOptions;
+}
+
+/**
+ * Result of one search in a batch: exactly one of the two is set
+ */
+export interface BatchSearchOutcome {
+  response?: SearchResponse;
+  error?: Error;
+}
+
+/**
+ * A collection's live table, leased once per request
+ */
+interface CollectionTable {
+  name: string;
+  table: Table;
+  release: () => void;
 }
 
 export interface SearchResponse {
   results: SearchResult[];
   query: string;
+  parsedQuery: ParsedQuery;
+  expansions: QueryExpansion[];
+  mode: SearchMode;
+  collections: string[];
+  filters: SearchFilters;
+  facets?: Record<string, FacetCounts>;
+  embeddingCache?: QueryCacheOutcome; // Absent in keyword mode
+  count: number;
+  offset: number;
+  total: number;
+  hasMore: boolean;
+  processingTimeMs: number;
+}
+
+export interface SimilarOptions {
+  limit?: number; // Maximum number of results (default: 10, max: 50)
+  filters?: SearchFilters; // Metadata filters applied before ranking
+  collection?: string; // Collection of the source example and its neighbours
+}
+
+export interface SimilarResponse {
+  results: SearchResult[];
+  exampleId: string;
+  filters: SearchFilters;
   count: number;
   processingTimeMs: number;
 }
 
 /**
- * Search for AlgoKit examples using semantic similarity
+ * Thrown when a search query cannot be searched as written, e.g. one made
+ * only of negated qualifiers
+ *
+ * The API answers 400: the client has to change the query.
+ */
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchQueryError";
+  }
+}
+
+/**
+ * Deepest ranked position reachable through pagination (offset + limit)
+ *
+ * Hybrid searches always fuse this many candidates from each ranking, so
+ * every page is cut from the same fused list and the order is stable.
+ */
+export const MAX_RESULT_WINDOW = 250;
+
+/**
+ * Search for AlgoKit examples
+ *
+ * - `vector` ranks by embedding similarity (semantic match)
+ * - `keyword` ranks by BM25 over the full-text indexed columns
+ * - `hybrid` runs both and fuses the rankings with reciprocal rank fusion
+ *
+ * Metadata filters are applied as a LanceDB pre-filter, so the limit is
+ * filled from matching examples only instead of trimming the top results.
+ * Requested facets are counted over all candidates, not just the page.
+ *
+ * Results are paginated with `offset`. Ties are broken by example_id so
+ * repeating a search with a larger offset never reorders earlier pages.
+ *
+ * Inline qualifiers (`lang:`, `tag:`, `repo:`, `complexity:`, `user:`,
+ * optionally negated with `-` and quoted) are parsed out of the query and
+ * added to the filters; only the remaining free text is embedded and
+ * keyword-matched. Qualifiers override single-valued request filters.
+ *
+ * Unless `expand` is false, domain acronyms and synonyms in the free text
+ * (e.g. "ASA", "LogicSig") are expanded before embedding and matching.
+ *
+ * `groupBy` collapses variants of the same example (e.g. one per language
+ * or repository) into a single result, and `diversity` re-ranks with
+ * maximal marginal relevance so near-duplicates do not crowd the top.
+ *
+ * With several `collections`, each collection's table is searched and the
+ * candidates are merged into one ranking: vector hits by distance, keyword
+ * hits by BM25 score. Results are tagged with their collection, and the
+ * same example_id in two collections is two results.
  *
  * @param query - The search query text
- * @param limit - Maximum number of results to return (default: 10, max: 50)
+ * @param options - Page limit/offset, metadata filters, search mode, facets,
+ *   diversification settings and collections
  * @returns Search response with results and metadata
  */
 export async function searchExamples(
   query: string,
-  limit: number = 10
+  options: SearchOptions = {}
 ): Promise<SearchResponse> {
+  const search = prepareSearch(query, options);
+  let tables: CollectionTable[] = [];
+
+  try {
+    tables = openSearchTables(search);
+
+    // Step 1: Convert query to vector embedding (not needed for keyword mode)
+    let embedded: CachedQueryEmbedding | null = null;
+    if (search.mode !== "keyword") {
+      embedded = await embedQueryCached(search.searchText);
+      console.log(`✓ Query embedded (cache ${embedded.cache})`);
+    }
+
+    return await executeSearch(search, tables, embedded);
+  } catch (error) {
+    if (
+      error instanceof EmbedderBusyError ||
+      error instanceof SearchQueryError ||
+      error instanceof ModelMismatchError
+    ) {
+      throw error;
+    }
+    console.error("Search failed:", error);
+    throw new Error(
+      `Search query failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  } finally {
+    releaseTables(tables);
+  }
+}
+
+/**
+ * Run several searches, embedding all their queries in one embedder call
+ *
+ * Each search behaves like `searchExamples` on its own, and fails on its
+ * own: one search's error does not affect the others.
+ *
+ * @param searches - Query and options of each search
+ * @returns One outcome per search, in order: its response or its error
+ */
+export async function searchExamplesBatch(
+  searches: BatchSearch[]
+): Promise<BatchSearchOutcome[]> {
+  console.log(`Batch searching ${searches.length} queries`);
+
+  // Step 1: Parse every search and open its tables; failures drop out here
+  const outcomes: BatchSearchOutcome[] = [];
+  const prepared: { index: number; search: PreparedSearch; tables: CollectionTable[] }[] = [];
+  for (const [index, { query, options }] of searches.entries()) {
+    try {
+      const search = prepareSearch(query, options);
+      prepared.push({ index, search, tables: openSearchTables(search) });
+    } catch (error) {
+      outcomes[index] = { error: batchSearchError(error) };
+    }
+  }
+
+  // Step 2: Embed every non-keyword query together
+  const embedded = new Map<number, CachedQueryEmbedding>();
+  const semantic = prepared.filter(({ search }) => search.mode !== "keyword");
+  if (semantic.length > 0) {
+    try {
+      const vectors = await embedQueriesCached(
+        semantic.map(({ search }) => search.searchText)
+      );
+      semantic.forEach(({ index }, i) => embedded.set(index, vectors[i]));
+      console.log(`✓ ${semantic.length} queries embedded`);
+    } catch (error) {
+      for (const { index } of semantic) {
+        outcomes[index] = { error: batchSearchError(error) };
+      }
+    }
+  }
+
+  // Step 3: Search, skipping queries whose embedding failed
+  await Promise.all(
+    prepared.map(async ({ index, search, tables }) => {
+      try {
+        if (outcomes[index]) return;
+        const response = await executeSearch(
+          search,
+          tables,
+          embedded.get(index) ?? null
+        );
+        outcomes[index] = { response };
+      } catch (error) {
+        outcomes[index] = { error: batchSearchError(error) };
+      } finally {
+        releaseTables(tables);
+      }
+    })
+  );
+
+  return outcomes;
+}
+
+/**
+ * Error for one search of a batch, worded like `searchExamples` errors
+ */
+function batchSearchError(error: unknown): Error {
+  if (
+    error instanceof EmbedderBusyError ||
+    error instanceof SearchQueryError ||
+    error instanceof ModelMismatchError
+  ) {
+    return error;
+  }
+  console.error("Search failed:", error);
+  return new Error(
+    `Search query failed: ${
+      error instanceof Error ? error.message : String(error)
+    }`
+  );
+}
+
+/**
+ * Validate a query and resolve its search settings, before any table is
+ * read or anything embedded
+ *
+ * @throws SearchQueryError if the query is empty or too long
+ */
+function prepareSearch(query: string, options: SearchOptions): PreparedSearch {
+  const {
+    limit = 10,
+    offset = 0,
+    mode = "vector",
+    facets: facetFields = [],
+    diversity = 0,
+    groupBy,
+    expand = true,
+    nprobes,
+    refineFactor,
+  } = options;
   const startTime = Date.now();
 
   // Validate query
   if (!query || !query.trim()) {
-    throw new Error("Search query cannot be empty");
+    throw new SearchQueryError("Search query cannot be empty");
   }
 
   if (query.length > 500) {
-    throw new Error("Search query too long (max 500 characters)");
+    throw new SearchQueryError("Search query too long (max 500 characters)");
   }
 
   // Clamp limit to valid range
   const clampedLimit = Math.max(1, Math.min(50, limit));
+  const clampedOffset = Math.max(0, Math.min(MAX_RESULT_WINDOW, offset));
+  const pageEnd = Math.min(clampedOffset + clampedLimit, MAX_RESULT_WINDOW);
+  const { parsed, filters: queryFilters } = parseSearchQuery(query);
+  const filters = mergeFilters(options.filters, queryFilters);
+  const freeText = parsed.text || qualifierText(parsed);
+  const { text: searchText, expansions } = expand
+    ? expandQuery(freeText)
+    : { text: freeText, expansions: [] };
+  const reranks = diversity > 0 || groupBy !== undefined;
+
+  return {
+    query,
+    parsed,
+    filters,
+    where: buildWhereClause(filters),
+    searchText,
+    expansions,
+    mode,
+    collections: options.collections,
+    facetFields,
+    diversity,
+    groupBy,
+    reranks,
+    nprobes,
+    refineFactor,
+    clampedLimit,
+    clampedOffset,
+    pageEnd,
+    candidateLimit: mode === "hybrid" || reranks ? MAX_RESULT_WINDOW : pageEnd,
+    startTime,
+  };
+}
+
+/**
+ * Open the tables a prepared search reads, checking that its query can be
+ * searched with them
+ *
+ * @throws SearchQueryError if there is no text to search
+ * @throws Error if a collection is unknown, or (for semantic searches) a
+ *   table was built with another embedding model
+ */
+function openSearchTables(search: PreparedSearch): CollectionTable[] {
+  const { searchText, mode, where, clampedLimit, clampedOffset } = search;
+  if (!searchText) {
+    throw new SearchQueryError("Search query needs free text or a positive qualifier");
+  }
+
+  const tables = openCollections(search.collections);
+  const collections = tables.map(({ name }) => name);
+
+  console.log(
+    `Searching for: "${searchText}" (mode: ${mode}, collections: ${collections.join(", ")}, limit: ${clampedLimit}, offset: ${clampedOffset}${
+      where ? `, where: ${where}` : ""
+    })`
+  );
+
+  if (mode !== "keyword") {
+    try {
+      assertQueryModel(collections);
+    } catch (error) {
+      releaseTables(tables);
+      throw error;
+    }
+  }
+  return tables;
+}
+
+/**
+ * Rank, page and count a prepared search
+ *
+ * @param embedded - Query vector (null in keyword mode)
+ */
+async function executeSearch(
+  search: PreparedSearch,
+  tables: CollectionTable[],
+  embedded: CachedQueryEmbedding | null
+): Promise<SearchResponse> {
+  const {
+    parsed,
+    filters,
+    where,
+    searchText,
+    mode,
+    facetFields,
+    diversity,
+    groupBy,
+    reranks,
+    clampedOffset,
+    pageEnd,
+    candidateLimit,
+  } = search;
+  const queryVector = embedded?.vector ?? null;
+
+  // Step 2: Collect ranked candidates from each enabled source
+  console.log("Searching database...");
+  const vectorHits = queryVector
+    ? await vectorSearch(tables, queryVector, where, candidateLimit, {
+        nprobes: search.nprobes,
+        refineFactor: search.refineFactor,
+      })
+    : [];
+  const keywordHits =
+    mode !== "vector"
+      ? await keywordSearch(tables, searchText, where, candidateLimit)
+      : [];
+
+  console.log(
+    `✓ Found ${vectorHits.length} vector and ${keywordHits.length} keyword candidates`
+  );
+
+  // Step 3: Fuse rankings, diversify, cut the requested page
+  let ranked = fuseResults(vectorHits, keywordHits, queryVector);
+  if (reranks) {
+    ranked = diversifyResults(ranked, queryVector, diversity, groupBy);
+  }
+  const formattedResults = ranked.slice(clampedOffset, pageEnd);
+  const total = await countCandidates(
+    tables,
+    where,
+    mode === "keyword" ? searchText : undefined,
+    groupBy
+  );
+
+  // Step 4: Count facet values over the whole candidate set
+  const facets =
+    facetFields.length > 0
+      ? await computeFacets(
+          tables.map(({ table }) => table),
+          facetFields,
+          where,
+          mode === "keyword" ? searchText : undefined
+        )
+      : undefined;
+
+  // Remember queries that found something for autocomplete
+  if (parsed.text && total > 0) {
+    recordQuery(parsed.text);
+  }
+
+  const processingTimeMs = Date.now() - search.startTime;
+
+  return {
+    results: formattedResults,
+    query: search.query.trim(),
+    parsedQuery: parsed,
+    expansions: search.expansions,
+    mode,
+    collections: tables.map(({ name }) => name),
+    filters,
+    ...(facets && { facets }),
+    ...(embedded && { embeddingCache: embedded.cache }),
+    count: formattedResults.length,
+    offset: clampedOffset,
+    total,
+    hasMore: pageEnd < Math.min(total, MAX_RESULT_WINDOW),
+    processingTimeMs,
+  };
+}
+
+/**
+ * Text to search for when a query consists only of qualifiers
+ *
+ * e.g. `tag:assets lang:python` searches for "assets python" within the
+ * filtered examples.
+ */
+function qualifierText(parsed: ParsedQuery): string {
+  return parsed.qualifiers
+    .filter((qualifier) => !qualifier.negated)
+    .map((qualifier) => qualifier.value)
+    .join(" ");
+}
 
+/**
+ * Lease the live tables of the requested collections
+ *
+ * The caller must pass them to `releaseTables` once the request is done.
+ *
+ * @param names - Collection names (default: the default collection)
+ * @throws Error if a collection is unknown
+ */
+function openCollections(names: string[] = []): CollectionTable[] {
+  const selected =
+    names.length > 0 ? [...new Set(names)] : [getDefaultCollection()];
+  const tables: CollectionTable[] = [];
   try {
-    console.log(`Searching for: "${query}" (limit: ${clampedLimit})`);
+    for (const name of selected) {
+      const { table, release } = acquireTable(name);
+      tables.push({ name, table, release });
+    }
+  } catch (error) {
+    releaseTables(tables);
+    throw error;
+  }
+  return tables;
+}
 
-    // Step 1: Convert query to vector embedding
-    const queryVector = await embedQuery(query);
-    console.log("✓ Query embedded");
+function releaseTables(tables: CollectionTable[]): void {
+  for (const { release } of tables) {
+    release();
+  }
+}
+
+/**
+ * Find examples similar to an existing one ("more like this")
+ *
+ * Uses the stored vector of the source example, so no query embedding is
+ * computed. The source example itself is excluded from the results, which
+ * come from the source example's collection.
+ *
+ * @param exampleId - The example_id to find neighbours for
+ * @param options - Result limit, metadata filters and collection
+ * @returns Similar examples, or null if the source example does not exist
+ */
+export async function findSimilarExamples(
+  exampleId: string,
+  options: SimilarOptions = {}
+): Promise<SimilarResponse | null> {
+  const { limit = 10 } = options;
+  const startTime = Date.now();
 
-    // Step 2: Get the database table
-    const table = getTable();
+  const clampedLimit = Math.max(1, Math.min(50, limit));
+  const filters = normalizeFilters(options.filters);
+  const where = [`example_id != ${quote(exampleId)}`, buildWhereClause(filters)]
+    .filter(Boolean)
+    .join(" AND ");
 
-    // Step 3: Perform vector similarity search
-    console.log("Searching database...");
-    const results = await table
-      .search(queryVector)
-      .limit(clampedLimit)
+  let tables: CollectionTable[] = [];
+  try {
+    tables = openCollections(options.collection ? [options.collection] : []);
+    const [collection] = tables;
+    const [source] = await collection.table
+      .query()
+      .where(`example_id = ${quote(exampleId)}`)
+      .limit(1)
       .toArray();
 
-    console.log(`✓ Found ${results.length} results`);
+    if (!source) {
+      console.log(`Example not found: ${exampleId}`);
+      return null;
+    }
 
-    // Step 4: Format results with similarity scores
-    // Convert Apache Arrow Vector objects to plain JavaScript arrays
-    const formattedResults: SearchResult[] = results.map((result: any) => ({
-      ...result,
-      feature_tags: Array.from(result.feature_tags || []),
-      features_to_demonstrate: Array.from(result.features_to_demonstrate || []),
-      target_users: Array.from(result.target_users || []),
-      similarity: distanceToSimilarity(result._distance),
-    }));
+    console.log(`Finding examples similar to: ${exampleId} (where: ${where})`);
 
-    const processingTimeMs = Date.now() - startTime;
+    const sourceVector: number[] = Array.from(source.vector);
+    const vectorHits = await vectorSearch(
+      [collection],
+      sourceVector,
+      where,
+      clampedLimit
+    );
+    const results = fuseResults(vectorHits, [], sourceVector);
 
     return {
-      results: formattedResults,
-      query: query.trim(),
-      count: formattedResults.length,
-      processingTimeMs,
+      results,
+      exampleId,
+      filters,
+      count: results.length,
+      processingTimeMs: Date.now() - startTime,
     };
   } catch (error) {
-    console.error("Search failed:", error);
+    console.error(`Similar search failed for ${exampleId}:`, error);
     throw new Error(
-      `Search query failed: ${
+      `Similar search failed: ${
         error instanceof Error ? error.message : String(error)
       }`
     );
+  } finally {
+    releaseTables(tables);
+  }
+}
+
+/**
+ * Count every result a search could return
+ *
+ * Vector ranking scores all examples passing the filters; keyword ranking
+ * only those matching the query terms. When grouping, each group counts
+ * once.
+ */
+async function countCandidates(
+  tables: CollectionTable[],
+  where: string | undefined,
+  keywordQuery?: string,
+  groupBy?: GroupByField
+): Promise<number> {
+  if (!keywordQuery && !groupBy) {
+    const counts = await Promise.all(
+      tables.map(({ table }) => table.countRows(where))
+    );
+    return counts.reduce((sum, count) => sum + count, 0);
+  }
+
+  const perTable = await Promise.all(
+    tables.map(({ table }) => {
+      let query = table.query();
+      if (keywordQuery) {
+        query = query
+          .fullTextSearch(keywordQuery, { columns: fullTextColumns })
+          .limit(MAX_KEYWORD_MATCHES);
+      }
+      if (where) {
+        query = query.where(where);
+      }
+      return query
+        .select(groupBy ? ["example_id", groupBy] : ["example_id"])
+        .toArray();
+    })
+  );
+  const matches = perTable.flat();
+  if (!groupBy) {
+    return matches.length;
   }
+  return collapseByKey(matches, (row) => row[groupBy]).length;
+}
+
+/**
+ * Nearest-neighbour search over the stored example vectors
+ *
+ * Every collection holds vectors from the same model, so distances from
+ * different tables are comparable and the hits are merged by distance.
+ */
+async function vectorSearch(
+  tables: CollectionTable[],
+  queryVector: number[],
+  where: string | undefined,
+  limit: number,
+  ann: AnnOptions = {}
+): Promise<SearchHit[]> {
+  const perTable = await Promise.all(
+    tables.map(async ({ name, table }) => {
+      // Vector queries pre-filter by default, so `where` narrows the candidates
+      let vectorQuery = table.vectorSearch(queryVector);
+      if (where) {
+        vectorQuery = vectorQuery.where(where);
+      }
+      if (ann.nprobes !== undefined) {
+        vectorQuery = vectorQuery.nprobes(ann.nprobes);
+      }
+      if (ann.refineFactor !== undefined) {
+        vectorQuery = vectorQuery.refineFactor(ann.refineFactor);
+      }
+      const hits: ExampleRow[] = await vectorQuery.limit(limit).toArray();
+      return hits.map((hit) => ({ ...hit, collection: name }));
+    })
+  );
+  return perTable
+    .flat()
+    .sort((a, b) => a._distance! - b._distance! || compareHits(a, b))
+    .slice(0, limit);
+}
+
+/**
+ * BM25 full-text search over the indexed text columns
+ *
+ * Each table scores against its own term statistics, so scores from
+ * different collections are only roughly comparable.
+ */
+async function keywordSearch(
+  tables: CollectionTable[],
+  query: string,
+  where: string | undefined,
+  limit: number
+): Promise<SearchHit[]> {
+  const perTable = await Promise.all(
+    tables.map(async ({ name, table }) => {
+      let keywordQuery = table
+        .query()
+        .fullTextSearch(query.trim(), { columns: fullTextColumns });
+      if (where) {
+        keywordQuery = keywordQuery.where(where);
+      }
+      const hits: ExampleRow[] = await keywordQuery.limit(limit).toArray();
+      return hits.map((hit) => ({ ...hit, collection: name }));
+    })
+  );
+  return perTable
+    .flat()
+    .sort((a, b) => b._score! - a._score! || compareHits(a, b))
+    .slice(0, limit);
+}
+
+/**
+ * Identity of a hit; example IDs are only unique within a collection
+ */
+function hitKey(hit: SearchHit): string {
+  return `${hit.collection}/${hit.example_id}`;
+}
+
+/**
+ * Deterministic order for hits that score the same
+ */
+function compareHits(a: SearchHit, b: SearchHit): number {
+  return (
+    a.example_id.localeCompare(b.example_id) ||
+    a.collection.localeCompare(b.collection)
+  );
+}
+
+/**
+ * Merge vector and keyword candidates into one ranked result list
+ *
+ * Candidates found only by keyword search are scored against the query
+ * vector using their stored embedding, so every result in vector or hybrid
+ * mode carries a similarity.
+ */
+function fuseResults(
+  vectorHits: SearchHit[],
+  keywordHits: SearchHit[],
+  queryVector: number[] | null
+): SearchResult[] {
+  const rows = new Map<string, SearchHit>();
+  const distances = new Map<string, number>();
+  const keywordScores = new Map<string, number>();
+
+  for (const hit of vectorHits) {
+    rows.set(hitKey(hit), hit);
+    distances.set(hitKey(hit), hit._distance!);
+  }
+  for (const hit of keywordHits) {
+    if (!rows.has(hitKey(hit))) rows.set(hitKey(hit), hit);
+    keywordScores.set(hitKey(hit), hit._score!);
+  }
+
+  const fused = reciprocalRankFusion([
+    vectorHits.map(hitKey),
+    keywordHits.map(hitKey),
+  ]);
+
+  if (queryVector) {
+    for (const [id, row] of rows) {
+      if (!distances.has(id)) {
+        distances.set(id, squaredL2Distance(queryVector, Array.from(row.vector)));
+      }
+    }
+  }
+
+  // Break fusion ties by distance, then ID, so the order is deterministic
+  const ranked = [...rows.keys()].sort(
+    (a, b) =>
+      fused.get(b)! - fused.get(a)! ||
+      (distances.get(a) ?? 0) - (distances.get(b) ?? 0) ||
+      compareHits(rows.get(a)!, rows.get(b)!)
+  );
+
+  return ranked.map((id, index) => {
+    const row = rows.get(id)!;
+    const distance = distances.get(id);
+    const similarity =
+      distance !== undefined ? distanceToSimilarity(distance) : undefined;
+
+    return {
+      ...toExample(row),
+      collection: row.collection,
+      ...(distance !== undefined && { _distance: distance, similarity }),
+      scores: {
+        vector: similarity ?? null,
+        keyword: keywordScores.get(id) ?? null,
+        fused: fused.get(id)!,
+        rank: index + 1,
+      },
+    };
+  });
+}
+
+/**
+ * Collapse variants and/or re-rank with maximal marginal relevance
+ *
+ * Relevance is the cosine similarity to the query when a query vector is
+ * available, otherwise the fused score scaled to 0-1. Ranks are renumbered
+ * to match the new order.
+ */
+function diversifyResults(
+  results: SearchResult[],
+  queryVector: number[] | null,
+  diversity: number,
+  groupBy?: GroupByField
+): SearchResult[] {
+  let diversified = results;
+
+  if (groupBy) {
+    diversified = collapseByKey(results, (result) => result[groupBy]).map(
+      ({ item, variants }) => ({
+        ...item,
+        variants: variants.map((variant) => ({
+          example_id: variant.example_id,
+          collection: variant.collection,
+          repository: variant.repository,
+          language: variant.language,
+          title: variant.title,
+          folder_name: variant.folder_name,
+          similarity: variant.similarity,
+        })),
+      })
+    );
+  }
+
+  if (diversity > 0) {
+    const topFused = Math.max(...diversified.map((result) => result.scores.fused));
+    const relevance = diversified.map((result) =>
+      queryVector
+        ? cosineSimilarity(queryVector, result.vector)
+        : result.scores.fused / topFused
+    );
+    diversified = maximalMarginalRelevance(
+      diversified,
+      relevance,
+      diversified.map((result) => result.vector),
+      diversity
+    );
+  }
+
+  return diversified.map((result, index) => ({
+    ...result,
+    scores: { ...result.scores, rank: index + 1 },
+  }));
+}
+
+/**
+ * Convert a LanceDB row into a plain example object
+ *
+ * Strips search metadata columns and converts Apache Arrow Vector objects
+ * to plain JavaScript arrays.
+ */
+function toExample(row: ExampleRow): AlgoKitExample {
+  const { _distance, _score, ...example } = row;
+  return {
+    ...example,
+    vector: Array.from(row.vector || []),
+    feature_tags: Array.from(row.feature_tags || []),
+    features_to_demonstrate: Array.from(row.features_to_demonstrate || []),
+    target_users: Array.from(row.target_users || []),
+  };
 }
 
 /**
  * Get example by ID
  *
  * @param exampleId - The example_id to look up
+ * @param collection - Collection to look in (default: the default collection)
  * @returns The matching example or null if not found
  */
 export async function getExampleById(
-  exampleId: string
+  exampleId: string,
+  collection?: string
 ): Promise<AlgoKitExample | null> {
   if (!exampleId || !exampleId.trim()) {
     throw new Error("Example ID cannot be empty");
   }
 
-  try {
-    const table = getTable();
+  const { results } = await getExamplesByIds([exampleId], collection);
+  if (results.length === 0) {
+    console.log(`Example not found: ${exampleId}`);
+    return null;
+  }
+  return results[0];
+}
+
+/**
+ * Get several examples by ID in one query
+ *
+ * Uses the scalar index on `example_id`. Repeated IDs are returned once.
+ *
+ * @param exampleIds - IDs to look up
+ * @param collection - Collection to look in (default: the default collection)
+ * @returns Found examples in the order requested, and the IDs not found
+ */
+export async function getExamplesByIds(
+  exampleIds: string[],
+  collection?: string
+): Promise<{ results: AlgoKitExample[]; missing: string[] }> {
+  const ids = [...new Set(exampleIds.map((id) => id.trim()).filter(Boolean))];
+  if (ids.length === 0) {
+    return { results: [], missing: [] };
+  }
 
-    // For small datasets, scan all and filter in memory
-    const allResults = await table.search([0]).limit(1000).toArray();
-    const result = allResults.find((r: any) => r.example_id === exampleId);
+  try {
+    const rows = await withTable(collection, (table) =>
+      table
+        .query()
+        .where(`example_id IN (${ids.map(quote).join(", ")})`)
+        .toArray()
+    );
+    const byId = new Map(
+      rows.map((row: ExampleRow) => [row.example_id, row])
+    );
 
-    if (!result) {
-      console.log(`Example not found: ${exampleId}`);
-      return null;
+    const results: AlgoKitExample[] = [];
+    const missing: string[] = [];
+    for (const id of ids) {
+      const row = byId.get(id);
+      if (row) {
+        results.push(toExample(row));
+      } else {
+        missing.push(id);
+      }
     }
 
-    // Convert Apache Arrow Vector objects to plain JavaScript arrays
-    return {
-      ...result,
-      feature_tags: Array.from(result.feature_tags || []),
-      features_to_demonstrate: Array.from(result.features_to_demonstrate || []),
-      target_users: Array.from(result.target_users || []),
-    } as AlgoKitExample;
+    return { results, missing };
   } catch (error) {
-    console.error(`Failed to get example ${exampleId}:`, error);
+    console.error(`Failed to get examples ${ids.join(", ")}:`, error);
     throw new Error(
-      `Failed to retrieve example: ${
+      `Failed to retrieve examples: ${
         error instanceof Error ? error.message : String(error)
       }`
     );
@@ -0,0 +1,244 @@
+/**
+ * Autocomplete suggestions for backend
+ *
+ * Keeps an in-memory index of example titles, feature tags, demonstrated
+ * features and popular past queries, and matches keystrokes against it by
+ * prefix and by edit distance so typos still produce completions.
+ */
+
+import type { AlgoKitExample } from "../db/models.js";
+import type { SuggestionSource } from "../schemas/search.js";
+
+interface SuggestionEntry {
+  text: string;
+  source: SuggestionSource;
+  normalized: string; // Lowercased text
+  words: string[]; // Lowercased words for mid-text matches
+  weight: number; // Number of examples (or searches) behind the entry
+}
+
+export interface Suggestion {
+  text: string;
+  source: SuggestionSource;
+  score: number;
+}
+
+/**
+ * Maximum number of distinct past queries remembered for suggestions
+ */
+const MAX_TRACKED_QUERIES = 1000;
+
+/**
+ * Searches needed before a past query is suggested to anyone, so one
+ * user's typos and private queries are not shown to everybody
+ */
+export const MIN_QUERY_COUNT = 3;
+
+let exampleEntries: SuggestionEntry[] = [];
+const queryEntries = new Map<string, SuggestionEntry>();
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function splitWords(text: string): string[] {
+  return normalize(text)
+    .split(/[\s\-_.:/()]+/)
+    .filter(Boolean);
+}
+
+function createEntry(
+  text: string,
+  source: SuggestionSource,
+  weight: number
+): SuggestionEntry {
+  return {
+    text,
+    source,
+    normalized: normalize(text),
+    words: splitWords(text),
+    weight,
+  };
+}
+
+/**
+ * Build the suggestion index from the loaded examples
+ *
+ * Replaces any previous index. Should be called whenever the examples
+ * table is (re)loaded.
+ *
+ * @param examples - All examples in the database
+ */
+export function buildSuggestionIndex(examples: AlgoKitExample[]): void {
+  const entries = new Map<string, SuggestionEntry>();
+
+  const add = (text: string | undefined, source: SuggestionSource) => {
+    if (!text || !text.trim()) return;
+    const key = `${source}:${normalize(text)}`;
+    const existing = entries.get(key);
+    if (existing) {
+      existing.weight += 1;
+    } else {
+      entries.set(key, createEntry(text.trim(), source, 1));
+    }
+  };
+
+  for (const example of examples) {
+    add(example.title, "title");
+    for (const tag of example.feature_tags ?? []) add(tag, "tag");
+    for (const feature of example.features_to_demonstrate ?? []) {
+      add(feature, "feature");
+    }
+  }
+
+  exampleEntries = [...entries.values()];
+  console.log(`✓ Built suggestion index with ${exampleEntries.length} entries`);
+}
+
+/**
+ * Remember a search query so popular queries can be suggested
+ *
+ * A query is only suggested once it has been searched `MIN_QUERY_COUNT`
+ * times. When the tracked set is full, the least popular query is
+ * forgotten.
+ *
+ * @param query - Free text of a search that returned results
+ */
+export function recordQuery(query: string): void {
+  const normalized = normalize(query);
+  if (normalized.length < 2) return;
+
+  const existing = queryEntries.get(normalized);
+  if (existing) {
+    existing.weight += 1;
+    return;
+  }
+
+  if (queryEntries.size >= MAX_TRACKED_QUERIES) {
+    let leastPopular: SuggestionEntry | undefined;
+    for (const entry of queryEntries.values()) {
+      if (!leastPopular || entry.weight < leastPopular.weight) {
+        leastPopular = entry;
+      }
+    }
+    if (leastPopular) queryEntries.delete(leastPopular.normalized);
+  }
+
+  queryEntries.set(normalized, createEntry(normalized, "query", 1));
+}
+
+/**
+ * Edit distance between `query` and the closest prefix of `candidate`
+ *
+ * Levenshtein distance where trailing characters of the candidate are
+ * free, so "atomc" is 1 edit away from "atomic transactions".
+ * Returns `maxDistance + 1` as soon as the distance is known to exceed it.
+ */
+export function prefixEditDistance(
+  query: string,
+  candidate: string,
+  maxDistance: number
+): number {
+  let previous = Array.from({ length: candidate.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= query.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= candidate.length; j++) {
+      const cost = query[i - 1] === candidate[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1, // deletion
+        current[j - 1] + 1, // insertion
+        previous[j - 1] + cost // substitution
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+
+  return Math.min(...previous);
+}
+
+/**
+ * Allowed typos for a query of the given length
+ */
+function maxEditsFor(length: number): number {
+  if (length < 4) return 0;
+  if (length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Score an entry against a normalized query (higher is better)
+ *
+ * Whole-text prefix matches beat word prefix matches, which beat fuzzy
+ * matches; popularity breaks ties within a tier.
+ */
+function scoreEntry(entry: SuggestionEntry, query: string): number | null {
+  const popularity = Math.log2(1 + entry.weight);
+
+  if (entry.normalized.startsWith(query)) {
+    return 300 + popularity;
+  }
+
+  // Single words may also complete any word inside the entry
+  const singleWord = !query.includes(" ");
+  if (singleWord && entry.words.some((word) => word.startsWith(query))) {
+    return 200 + popularity;
+  }
+
+  const maxEdits = maxEditsFor(query.length);
+  if (maxEdits === 0) return null;
+
+  let best = prefixEditDistance(query, entry.normalized, maxEdits);
+  if (singleWord) {
+    for (const word of entry.words) {
+      best = Math.min(best, prefixEditDistance(query, word, maxEdits));
+    }
+  }
+
+  return best <= maxEdits ? 100 - best * 10 + popularity : null;
+}
+
+/**
+ * Suggest completions for partially typed search text
+ *
+ * @param text - Text typed so far
+ * @param limit - Maximum number of suggestions (default: 8)
+ * @returns Suggestions ordered by score
+ */
+export function suggest(text: string, limit: number = 8): Suggestion[] {
+  const query = normalize(text);
+  if (!query) return [];
+
+  const matches: Suggestion[] = [];
+  const seen = new Set<string>();
+
+  const popularQueries = [...queryEntries.values()].filter(
+    (entry) => entry.weight >= MIN_QUERY_COUNT
+  );
+  for (const entry of [...popularQueries, ...exampleEntries]) {
+    const score = scoreEntry(entry, query);
+    if (score === null) continue;
+    matches.push({ text: entry.text, source: entry.source, score });
+  }
+
+  matches.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.text.length - b.text.length ||
+      a.text.localeCompare(b.text)
+  );
+
+  // Same text from several sources is only suggested once
+  return matches
+    .filter((match) => {
+      const key = normalize(match.text);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit)
+    .map((match) => ({ ...match, score: Math.round(match.score * 100) / 100 }));
+}
@@ -0,0 +1,113 @@
+/**
+ * Algorand domain synonym and acronym expansion
+ *
+ * Loads a term -> expansions dictionary from `data/synonyms.json` (or
+ * `SYNONYMS_PATH`) and appends expansions for terms found in a query, so
+ * acronyms like "ASA" or "ATC" match how example summaries are worded.
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import type { QueryExpansion } from "../schemas/search.js";
+
+interface SynonymEntry {
+  term: string;
+  pattern: RegExp;
+  expansions: string[];
+}
+
+let entries: SynonymEntry[] = [];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Match a term as a whole word or phrase, case-insensitively
+ *
+ * Spaces and hyphens are interchangeable, so "opt in" also matches "opt-in".
+ */
+function termPattern(term: string): RegExp {
+  const body = term
+    .trim()
+    .split(/[\s-]+/)
+    .map(escapeRegExp)
+    .join("[\\s-]+");
+  return new RegExp(`(?<![\\w-])${body}(?![\\w-])`, "i");
+}
+
+/**
+ * Load the synonym dictionary
+ *
+ * A missing or invalid file disables expansion with a warning rather than
+ * failing startup.
+ *
+ * @param path - JSON file mapping each term to its expansions
+ */
+export function loadSynonyms(
+  path: string = process.env.SYNONYMS_PATH ||
+    join(process.cwd(), "data", "synonyms.json")
+): void {
+  try {
+    const dictionary: Record<string, string[]> = JSON.parse(
+      readFileSync(path, "utf-8")
+    );
+
+    entries = Object.entries(dictionary)
+      .filter(([term, expansions]) => term.trim() && Array.isArray(expansions))
+      .map(([term, expansions]) => ({
+        term,
+        pattern: termPattern(term),
+        expansions: expansions.filter((expansion) => expansion.trim()),
+      }));
+
+    console.log(`✓ Loaded ${entries.length} synonym entries from ${path}`);
+  } catch (error) {
+    entries = [];
+    console.warn(
+      `Synonym expansion disabled, failed to load ${path}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Expand domain acronyms and synonyms found in a query
+ *
+ * Expansions already present in the query (or added by an earlier term)
+ * are skipped.
+ *
+ * @param text - Free text of the query
+ * @returns Text with expansions appended, and the expansions applied
+ */
+export function expandQuery(text: string): {
+  text: string;
+  expansions: QueryExpansion[];
+} {
+  const applied: QueryExpansion[] = [];
+  const added: string[] = [];
+  const seen = text.toLowerCase();
+
+  for (const entry of entries) {
+    if (!entry.pattern.test(text)) continue;
+
+    const fresh = entry.expansions.filter((expansion) => {
+      const lower = expansion.toLowerCase();
+      if (seen.includes(lower) || added.some((a) => a.toLowerCase() === lower)) {
+        return false;
+      }
+      added.push(expansion);
+      return true;
+    });
+
+    if (fresh.length > 0) {
+      applied.push({ term: entry.term, expansions: fresh });
+    }
+  }
+
+  return {
+    text: added.length > 0 ? `${text} ${added.join(" ")}` : text,
+    expansions: applied,
+  };
+}
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict'
+import { after, before, test } from 'node:test'
+import { buildServer } from '../src/server.js'
+import { createFakeEmbedder } from '../src/embedders/fake.js'
+import { useScratchDirectory } from './helpers.js'
+
+let scratch: ReturnType<typeof useScratchDirectory>
+let server: Awaited<ReturnType<typeof buildServer>>
+
+const TOKEN = 'test-admin-token'
+const authorization = `Bearer ${TOKEN}`
+
+const newExample = {
+  repository: 'algokit-utils-ts',
+  title: 'Curated Box Storage Walkthrough',
+  summary: 'Store and read values in application boxes.',
+  complexity: 'moderate',
+  language: 'typescript',
+  feature_tags: ['box-storage'],
+  features_to_demonstrate: ['algorand.app.getBoxValue'],
+  target_users: ['dApp Developers']
+}
+
+before(async () => {
+  scratch = useScratchDirectory()
+  process.env.ADMIN_TOKEN = TOKEN
+  server = await buildServer({ embedder: createFakeEmbedder(384), logger: false })
+})
+
+after(async () => {
+  await server.close()
+  scratch.cleanup()
+})
+
+const getExample = (id: string) => server.inject({ method: 'GET', url: `/api/examples/${id}` })
+
+test('admin routes are disabled without ADMIN_TOKEN', async () => {
+  delete process.env.ADMIN_TOKEN
+  try {
+    const response = await server.inject({ method: 'POST', url: '/api/admin/reload', headers: { authorization } })
+    assert.equal(response.statusCode, 403)
+  } finally {
+    process.env.ADMIN_TOKEN = TOKEN
+  }
+})
+
+test('admin routes reject a missing or wrong token', async () => {
+  const missing = await server.inject({ method: 'DELETE', url: '/api/admin/examples/anything' })
+  const wrong = await server.inject({
+    method: 'DELETE',
+    url: '/api/admin/examples/anything',
+    headers: { authorization: 'Bearer not-the-token' }
+  })
+
+  assert.equal(missing.statusCode, 401)
+  assert.equal(wrong.statusCode, 401)
+})
+
+test('PUT /api/admin/examples/:id rejects unknown complexity and language', async () => {
+  for (const invalid of [{ complexity: 'expert' }, { language: 'rust' }]) {
+    const response = await server.inject({
+      method: 'PUT',
+      url: '/api/admin/examples/curated-invalid',
+      headers: { authorization },
+      payload: { ...newExample, ...invalid }
+    })
+
+    assert.equal(response.statusCode, 400)
+  }
+  assert.equal((await getExample('curated-invalid')).statusCode, 404)
+})
+
+test('upserts and deletes examples', async () => {
+  const created = await server.inject({
+    method: 'PUT',
+    url: '/api/admin/examples/curated-box-storage',
+    headers: { authorization },
+    payload: newExample
+  })
+  assert.equal(created.statusCode, 201)
+  assert.equal(created.json().created, true)
+
+  const replaced = await server.inject({
+    method: 'PUT',
+    url: '/api/admin/examples/curated-box-storage',
+    headers: { authorization },
+    payload: { ...newExample, complexity: 'complex' }
+  })
+  assert.equal(replaced.statusCode, 200)
+  assert.equal((await getExample('curated-box-storage')).json().complexity, 'complex')
+
+  const deleted = await server.inject({
+    method: 'DELETE',
+    url: '/api/admin/examples/01-account-creation-and-funding',
+    headers: { authorization }
+  })
+  assert.equal(deleted.statusCode, 204)
+  assert.equal((await getExample('01-account-creation-and-funding')).statusCode, 404)
+
+  const again = await server.inject({
+    method: 'DELETE',
+    url: '/api/admin/examples/01-account-creation-and-funding',
+    headers: { authorization }
+  })
+  assert.equal(again.statusCode, 404)
+})
+
+test('curated edits survive a rebuild from the embeddings file', async () => {
+  const reload = await server.inject({
+    method: 'POST',
+    url: '/api/admin/reload?force=true',
+    headers: { authorization }
+  })
+  assert.equal(reload.statusCode, 200)
+  assert.equal(reload.json().status, 'reloaded')
+
+  const kept = await getExample('curated-box-storage')
+  assert.equal(kept.statusCode, 200)
+  assert.equal(kept.json().complexity, 'complex')
+  assert.equal((await getExample('01-account-creation-and-funding')).statusCode, 404)
+})
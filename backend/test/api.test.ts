@@ -0,0 +1,120 @@
+import assert from 'node:assert/strict'
+import { after, before, test } from 'node:test'
+import { buildServer } from '../src/server.js'
+import { createFakeEmbedder } from '../src/embedders/fake.js'
+import { useScratchDirectory } from './helpers.js'
+
+let scratch: ReturnType<typeof useScratchDirectory>
+let server: Awaited<ReturnType<typeof buildServer>>
+
+before(async () => {
+  // Build the tables in a scratch directory, from the shipped embeddings
+  scratch = useScratchDirectory()
+  server = await buildServer({ embedder: createFakeEmbedder(384), logger: false })
+})
+
+after(async () => {
+  await server.close()
+  scratch.cleanup()
+})
+
+test('POST /api/search ranks examples with the injected embedder', async () => {
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/search',
+    payload: { query: 'box storage', limit: 3 }
+  })
+
+  assert.equal(response.statusCode, 200)
+  const body = response.json()
+  assert.equal(body.count, 3)
+  assert.equal(body.mode, 'vector')
+  assert.equal(body.embeddingCache, 'miss')
+  assert.ok(body.results.every((result: { scores: { vector: number | null } }) => result.scores.vector !== null))
+})
+
+test('GET /api/health reports the fake provider', async () => {
+  const response = await server.inject({ method: 'GET', url: '/api/health' })
+
+  assert.equal(response.statusCode, 200)
+  assert.equal(response.json().model.provider, 'fake')
+})
+
+test('POST /api/search rejects a query with nothing to search', async () => {
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/search',
+    payload: { query: '-tag:testing' }
+  })
+
+  assert.equal(response.statusCode, 400)
+  assert.equal(response.json().message, 'Search query needs free text or a positive qualifier')
+})
+
+test('POST /api/search/batch fails invalid searches alone', async () => {
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/search/batch',
+    payload: {
+      searches: [
+        { query: 'box storage', limit: 2 },
+        { query: '' },
+        { query: 'asset', mode: 'keyword', collections: ['missing'] },
+        { query: '-tag:testing' }
+      ]
+    }
+  })
+
+  assert.equal(response.statusCode, 200)
+  const { results, count, failed } = response.json()
+  assert.equal(count, 4)
+  assert.equal(failed, 3)
+  assert.equal(results[0].response.count, 2)
+  assert.deepEqual(
+    results.slice(1).map(({ error }: { error: { statusCode: number } }) => error.statusCode),
+    [400, 400, 400]
+  )
+  assert.match(results[1].error.message, /^body\/searches\/1\/query /)
+})
+
+test('POST /api/search applies filters before ranking', async () => {
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/search',
+    payload: {
+      query: 'deploy a contract',
+      limit: 50,
+      filters: {
+        complexity: 'simple',
+        feature_tags: { any: ['smart-contracts'], none: ["o'clock"] }
+      }
+    }
+  })
+
+  assert.equal(response.statusCode, 200)
+  const { results, total } = response.json()
+  assert.ok(results.length > 0)
+  assert.equal(results.length, total)
+  for (const result of results) {
+    assert.equal(result.complexity, 'simple')
+    assert.ok(result.feature_tags.includes('smart-contracts'))
+  }
+})
+
+test('POST /api/search counts facets over every filtered candidate', async () => {
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/search',
+    payload: {
+      query: 'box storage',
+      limit: 1,
+      facets: ['complexity', 'language'],
+      filters: { exclude: { complexity: ['complex'] } }
+    }
+  })
+
+  assert.equal(response.statusCode, 200)
+  const { facets, total } = response.json()
+  assert.deepEqual(facets.complexity, { moderate: 17, simple: 14 })
+  assert.deepEqual(facets.language, { typescript: total })
+})
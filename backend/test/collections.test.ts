@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, before, beforeEach, test } from 'node:test'
+import { DEFAULT_COLLECTION, loadCollectionConfigs } from '../src/db/collections.js'
+
+let dir: string
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'algokit-test-'))
+})
+
+beforeEach(() => {
+  delete process.env.COLLECTIONS_PATH
+  delete process.env.EMBEDDINGS_PATH
+  delete process.env.EMBEDDINGS_FORMAT
+  delete process.env.SOURCE_EMBEDDING_MODEL
+})
+
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+function writeCollections(contents: unknown): string {
+  const path = join(dir, 'collections.json')
+  writeFileSync(path, typeof contents === 'string' ? contents : JSON.stringify(contents))
+  return path
+}
+
+test('falls back to a single collection from the environment', () => {
+  process.env.EMBEDDINGS_PATH = '/srv/examples.ndjson'
+  process.env.SOURCE_EMBEDDING_MODEL = 'Xenova/bge-small-en-v1.5'
+
+  assert.deepEqual(loadCollectionConfigs(join(dir, 'missing.json')), [
+    {
+      name: DEFAULT_COLLECTION,
+      source: { path: '/srv/examples.ndjson', format: 'jsonl', model: 'Xenova/bge-small-en-v1.5' }
+    }
+  ])
+})
+
+test('requires the file when COLLECTIONS_PATH names it', () => {
+  process.env.COLLECTIONS_PATH = join(dir, 'missing.json')
+
+  assert.throws(() => loadCollectionConfigs(), /Collections file not found/)
+})
+
+test('reads collections in file order with their sources', () => {
+  process.env.SOURCE_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2'
+  const path = writeCollections({
+    official: { path: '/srv/embeddings.json', description: 'Official AlgoKit examples' },
+    community: { path: '/srv/community.data', format: 'parquet', model: 'Xenova/bge-small-en-v1.5' }
+  })
+
+  assert.deepEqual(loadCollectionConfigs(path), [
+    {
+      name: 'official',
+      description: 'Official AlgoKit examples',
+      source: { path: '/srv/embeddings.json', format: 'json', model: 'Xenova/all-MiniLM-L6-v2' }
+    },
+    {
+      name: 'community',
+      source: { path: '/srv/community.data', format: 'parquet', model: 'Xenova/bge-small-en-v1.5' }
+    }
+  ])
+})
+
+test('rejects invalid collections files', () => {
+  const cases: Array<[unknown, RegExp]> = [
+    ['{"official":', /Failed to parse collections file/],
+    [['official'], /must map collection names to sources/],
+    [{}, /lists no collections/],
+    [{ Official: { path: 'a.json' } }, /Invalid collection name 'Official'/],
+    [{ my_examples: { path: 'a.json' } }, /Invalid collection name 'my_examples'/],
+    [{ official: {} }, /Collection 'official' needs a path/],
+    [{ official: { path: 'a.json', format: 1 } }, /Collection 'official' has an invalid format/],
+    [{ official: { path: 'a.json', model: '' } }, /Collection 'official' has an invalid model/],
+    [{ official: { path: 'a.csv' } }, /Cannot infer embeddings format/]
+  ]
+
+  for (const [contents, message] of cases) {
+    assert.throws(() => loadCollectionConfigs(writeCollections(contents)), message)
+  }
+})
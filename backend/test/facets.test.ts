@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { countFacets } from '../src/services/facets.js'
+
+test('countFacets counts scalar values, skipping missing ones', () => {
+  const rows = [
+    { language: 'python' },
+    { language: 'typescript' },
+    { language: 'python' },
+    { language: null },
+    {}
+  ]
+
+  assert.deepEqual(countFacets(rows, ['language']), {
+    language: { python: 2, typescript: 1 }
+  })
+})
+
+test('countFacets counts each list value once per row', () => {
+  const rows = [
+    { feature_tags: ['asa', 'asa', 'box-storage'] },
+    { feature_tags: ['asa'] },
+    { feature_tags: [] }
+  ]
+
+  assert.deepEqual(countFacets(rows, ['feature_tags']), {
+    feature_tags: { asa: 2, 'box-storage': 1 }
+  })
+})
+
+test('countFacets orders values by count, then alphabetically', () => {
+  const rows = [
+    { complexity: 'simple' },
+    { complexity: 'moderate' },
+    { complexity: 'complex' },
+    { complexity: 'moderate' }
+  ]
+
+  assert.deepEqual(Object.keys(countFacets(rows, ['complexity']).complexity), [
+    'moderate',
+    'complex',
+    'simple'
+  ])
+})
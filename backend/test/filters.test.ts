@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import {
+  buildWhereClause,
+  filtersFromQuerystring,
+  mergeFilters,
+  normalizeFilters,
+  quote
+} from '../src/services/filters.js'
+
+test('quote escapes single quotes', () => {
+  assert.equal(quote("it's"), "'it''s'")
+  assert.equal(quote("' OR 1=1 --"), "''' OR 1=1 --'")
+})
+
+test('buildWhereClause combines scalar, list and exclusion filters', () => {
+  const where = buildWhereClause({
+    language: 'python',
+    feature_tags: { all: ['box-storage'], any: ['asa', "o'clock"], none: ['deprecated'] },
+    target_users: { any: ['dApp Developers'] },
+    exclude: { complexity: ['complex', 'moderate'] }
+  })
+
+  assert.equal(
+    where,
+    "language = 'python'" +
+      " AND complexity NOT IN ('complex', 'moderate')" +
+      " AND array_has_all(feature_tags, ['box-storage'])" +
+      " AND array_has_any(feature_tags, ['asa', 'o''clock'])" +
+      " AND NOT array_has_any(feature_tags, ['deprecated'])" +
+      " AND array_has_any(target_users, ['dApp Developers'])"
+  )
+})
+
+test('buildWhereClause returns undefined without filters', () => {
+  assert.equal(buildWhereClause(), undefined)
+  assert.equal(buildWhereClause(normalizeFilters({ language: ' ', feature_tags: { all: [''] } })), undefined)
+})
+
+test('normalizeFilters trims values and drops empty and repeated ones', () => {
+  assert.deepEqual(
+    normalizeFilters({
+      repository: ' algokit-utils-ts ',
+      complexity: '',
+      feature_tags: { all: ['asa', ' asa', ''], any: [] },
+      exclude: { language: ['python', 'python'], repository: [] }
+    }),
+    {
+      repository: 'algokit-utils-ts',
+      feature_tags: { all: ['asa'] },
+      exclude: { language: ['python'] }
+    }
+  )
+})
+
+test('mergeFilters lets overrides win single values and unions lists', () => {
+  assert.deepEqual(
+    mergeFilters(
+      { language: 'typescript', feature_tags: { all: ['asa'] }, exclude: { complexity: ['complex'] } },
+      { language: 'python', feature_tags: { all: ['box-storage'], none: ['testing'] }, exclude: { complexity: ['moderate'] } }
+    ),
+    {
+      language: 'python',
+      feature_tags: { all: ['asa', 'box-storage'], none: ['testing'] },
+      exclude: { complexity: ['complex', 'moderate'] }
+    }
+  )
+})
+
+test('filtersFromQuerystring maps flat parameters', () => {
+  assert.deepEqual(
+    filtersFromQuerystring({
+      language: 'python',
+      feature_tags_any: ['asa', 'box-storage'],
+      target_users_none: ['Testing Developers'],
+      exclude_repository: ['algokit-utils-py']
+    }),
+    {
+      language: 'python',
+      feature_tags: { any: ['asa', 'box-storage'] },
+      target_users: { none: ['Testing Developers'] },
+      exclude: { repository: ['algokit-utils-py'] }
+    }
+  )
+})
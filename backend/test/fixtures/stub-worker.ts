@@ -0,0 +1,25 @@
+/**
+ * Stand-in for `src/embedders/worker.ts` that needs no model
+ *
+ * Each text embeds to `[text.length]`. A batch containing `sleep:<ms>`
+ * replies after that long, and one containing `fail` replies with an error.
+ */
+
+import { setTimeout as sleep } from 'node:timers/promises'
+import { parentPort } from 'node:worker_threads'
+import type { WorkerMessage } from '../../src/embedders/worker.js'
+
+const reply = (message: WorkerMessage) => parentPort!.postMessage(message)
+
+parentPort!.on('message', async (texts: string[]) => {
+  const delay = texts.find((text) => text.startsWith('sleep:'))
+  if (delay) {
+    await sleep(Number(delay.slice('sleep:'.length)))
+  }
+  if (texts.includes('fail')) {
+    reply({ type: 'error', message: 'Stub embedding failed' })
+    return
+  }
+  reply({ type: 'result', vectors: texts.map((text) => [text.length]) })
+})
+reply({ type: 'ready' })
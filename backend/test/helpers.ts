@@ -0,0 +1,29 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+
+/**
+ * The repository's data directory, with the shipped embeddings
+ */
+export const DATA_DIR = resolve('data')
+
+/**
+ * Move the test process into an empty scratch directory, so LanceDB
+ * tables are built there instead of in `data/`
+ *
+ * Every test file runs in its own process, so this does not leak into
+ * other files.
+ *
+ * @returns The directory and a cleanup function for `after`
+ */
+export function useScratchDirectory(): { dir: string; cleanup: () => void } {
+  const dir = mkdtempSync(join(tmpdir(), 'algokit-test-'))
+  process.chdir(dir)
+  process.env.EMBEDDINGS_PATH = join(DATA_DIR, 'embeddings.json')
+  process.env.SYNONYMS_PATH = join(DATA_DIR, 'synonyms.json')
+
+  return {
+    dir,
+    cleanup: () => rmSync(dir, { recursive: true, force: true })
+  }
+}
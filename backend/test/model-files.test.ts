@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict'
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, test } from 'node:test'
+import { DEFAULT_EMBEDDING_MODEL } from '../src/db/models.js'
+import {
+  MANIFEST_FILE,
+  modelDirectory,
+  verifyModelFiles,
+  writeModelManifest
+} from '../src/embedders/model-files.js'
+
+const model = DEFAULT_EMBEDDING_MODEL
+
+let dir: string
+let modelDir: string
+
+beforeEach(async () => {
+  // A vendored model with a nested file, as Transformers.js lays them out
+  dir = mkdtempSync(join(tmpdir(), 'algokit-test-'))
+  modelDir = modelDirectory(dir, model)
+  mkdirSync(join(modelDir, 'onnx'), { recursive: true })
+  writeFileSync(join(modelDir, 'config.json'), '{"hidden_size":384}')
+  writeFileSync(join(modelDir, 'onnx', 'model_quantized.onnx'), 'weights')
+  await writeModelManifest(dir, model)
+})
+
+afterEach(() => rmSync(dir, { recursive: true, force: true }))
+
+function readManifest() {
+  return JSON.parse(readFileSync(join(modelDir, MANIFEST_FILE), 'utf-8'))
+}
+
+test('writes a manifest hashing every file', async () => {
+  const manifest = readManifest()
+
+  assert.equal(manifest.model, model.id)
+  assert.deepEqual(Object.keys(manifest.files), ['config.json', 'onnx/model_quantized.onnx'])
+  assert.equal(
+    manifest.files['onnx/model_quantized.onnx'],
+    '9a129038d9a00aed0cf6a7ea059ca50a813449061ab87848cf1a13eafdf33b2c'
+  )
+  await verifyModelFiles(dir, model)
+})
+
+test('rejects files that do not match their checksums', async () => {
+  writeFileSync(join(modelDir, 'onnx', 'model_quantized.onnx'), 'tampered')
+
+  await assert.rejects(
+    verifyModelFiles(dir, model),
+    /Model files do not match their checksums in .*: onnx\/model_quantized\.onnx/
+  )
+})
+
+test('rejects missing files', async () => {
+  unlinkSync(join(modelDir, 'config.json'))
+
+  await assert.rejects(verifyModelFiles(dir, model), /Model files missing from .*: config\.json/)
+})
+
+test('rejects a missing, unreadable or mismatched manifest', async () => {
+  const manifestPath = join(modelDir, MANIFEST_FILE)
+  const cases: Array<[string | null, RegExp]> = [
+    ['{"model":', /Failed to parse model manifest/],
+    [JSON.stringify({ model: 'Xenova/bge-small-en-v1.5', files: readManifest().files }), /is for Xenova\/bge-small-en-v1\.5/],
+    [JSON.stringify({ model: model.id, files: {} }), /lists no files/],
+    [null, /is not vendored/]
+  ]
+
+  for (const [contents, message] of cases) {
+    if (contents === null) {
+      unlinkSync(manifestPath)
+    } else {
+      writeFileSync(manifestPath, contents)
+    }
+    await assert.rejects(verifyModelFiles(dir, model), message)
+  }
+})
+
+test('refuses to write a manifest without files', async () => {
+  await assert.rejects(
+    writeModelManifest(dir, { ...model, id: 'Xenova/not-downloaded' }),
+    /No model files found/
+  )
+})
@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict'
+import { writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { after, before, test } from 'node:test'
+import { buildServer } from '../src/server.js'
+import { createFakeEmbedder } from '../src/embedders/fake.js'
+import { MAX_RESULT_WINDOW } from '../src/services/search.js'
+import { useScratchDirectory } from './helpers.js'
+
+const EXAMPLES_COUNT = 300
+const PAGE_SIZE = 50
+
+let scratch: ReturnType<typeof useScratchDirectory>
+let server: Awaited<ReturnType<typeof buildServer>>
+
+before(async () => {
+  // More examples than the result window, embedded like the queries
+  scratch = useScratchDirectory()
+  const embedder = createFakeEmbedder(384)
+  const titles = Array.from({ length: EXAMPLES_COUNT }, (_, i) => `Box storage example ${i} part ${i % 7}`)
+  const vectors = await embedder.embed(titles)
+  const records = titles.map((title, i) => ({
+    example_id: `example-${String(i).padStart(3, '0')}`,
+    repository: 'algokit-utils-ts',
+    title,
+    summary: `Reads and writes box ${i}.`,
+    complexity: 'simple',
+    language: 'typescript',
+    feature_tags: ['box-storage'],
+    features_to_demonstrate: [],
+    target_users: [],
+    folder_name: null,
+    source_code: null,
+    vector: vectors[i]
+  }))
+  process.env.EMBEDDINGS_PATH = join(scratch.dir, 'embeddings.jsonl')
+  writeFileSync(process.env.EMBEDDINGS_PATH, records.map((record) => JSON.stringify(record)).join('\n'))
+
+  server = await buildServer({ embedder, logger: false })
+})
+
+after(async () => {
+  await server.close()
+  scratch.cleanup()
+})
+
+async function searchPage(mode: string, offset: number, limit = PAGE_SIZE) {
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/search',
+    payload: { query: 'box storage part 3', mode, offset, limit }
+  })
+  assert.equal(response.statusCode, 200)
+  return response.json()
+}
+
+for (const mode of ['vector', 'hybrid']) {
+  test(`${mode} pages tile the result window without repeats`, async () => {
+    const seen: string[] = []
+    for (let offset = 0; offset < MAX_RESULT_WINDOW; offset += PAGE_SIZE) {
+      const page = await searchPage(mode, offset)
+      assert.equal(page.count, PAGE_SIZE)
+      assert.equal(page.results[0].scores.rank, offset + 1)
+      seen.push(...page.results.map(({ example_id }: { example_id: string }) => example_id))
+    }
+
+    assert.equal(new Set(seen).size, MAX_RESULT_WINDOW)
+  })
+}
+
+test('the last page stops at the result window', async () => {
+  const page = await searchPage('vector', MAX_RESULT_WINDOW - 10, 20)
+
+  assert.equal(page.count, 10)
+  assert.equal(page.total, EXAMPLES_COUNT)
+  assert.equal(page.hasMore, false)
+})
+
+test('offsets past the result window are rejected', async () => {
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/search',
+    payload: { query: 'box storage', offset: MAX_RESULT_WINDOW }
+  })
+
+  assert.equal(response.statusCode, 400)
+})
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { test } from 'node:test'
+import { DEFAULT_EMBEDDING_MODEL } from '../src/db/models.js'
+import { EmbedderBusyError } from '../src/embedders/embedder.js'
+import { createFakeEmbedder } from '../src/embedders/fake.js'
+import { createPooledEmbedder, type EmbedderPoolOptions } from '../src/embedders/pool.js'
+import { buildServer } from '../src/server.js'
+import { useScratchDirectory } from './helpers.js'
+
+const STUB_WORKER_URL = new URL('./fixtures/stub-worker.ts', import.meta.url)
+
+async function startPool(options: Partial<EmbedderPoolOptions>) {
+  const embedder = createPooledEmbedder(DEFAULT_EMBEDDING_MODEL, {
+    size: 1,
+    queueSize: 1,
+    timeoutMs: 5000,
+    workerUrl: STUB_WORKER_URL,
+    ...options
+  })
+  await embedder.initialize()
+  return embedder
+}
+
+test('spreads requests over the workers', async () => {
+  const embedder = await startPool({ size: 2 })
+
+  assert.deepEqual(await Promise.all([embedder.embed(['a', 'sleep:50']), embedder.embed(['abc'])]), [
+    [[1], [8]],
+    [[3]]
+  ])
+  assert.deepEqual(embedder.getQueueStats!(), {
+    workers: 2,
+    busy: 0,
+    queued: 0,
+    queueSize: 1,
+    rejected: 0,
+    timedOut: 0
+  })
+})
+
+test('refuses requests once the queue is full', async () => {
+  const embedder = await startPool({ size: 1, queueSize: 1 })
+
+  const running = embedder.embed(['sleep:200'])
+  const queued = embedder.embed(['queued'])
+  await assert.rejects(
+    embedder.embed(['refused']),
+    (error) => error instanceof EmbedderBusyError && /queue is full/.test(error.message) && error.retryAfterSeconds >= 1
+  )
+  assert.deepEqual(embedder.getQueueStats!(), {
+    workers: 1,
+    busy: 1,
+    queued: 1,
+    queueSize: 1,
+    rejected: 1,
+    timedOut: 0
+  })
+
+  // The queued request still runs once the worker is free
+  assert.deepEqual(await Promise.all([running, queued]), [[[9]], [[6]]])
+})
+
+test('times out a running request and replaces its worker', async () => {
+  const embedder = await startPool({ size: 1, queueSize: 1, timeoutMs: 100 })
+
+  await assert.rejects(
+    embedder.embed(['sleep:5000']),
+    (error) => error instanceof EmbedderBusyError && /timed out after 100ms/.test(error.message)
+  )
+  assert.equal(embedder.getQueueStats!().timedOut, 1)
+
+  // A replacement worker takes over once it has started
+  while (embedder.getQueueStats!().workers === 0) {
+    await sleep(20)
+  }
+  assert.deepEqual(await embedder.embed(['next']), [[4]])
+})
+
+test('fails only the request whose embedding failed', async () => {
+  const embedder = await startPool({ size: 1 })
+
+  await assert.rejects(embedder.embed(['fail']), /Stub embedding failed/)
+  assert.deepEqual(await embedder.embed(['ok']), [[2]])
+})
+
+test('the API answers busy errors with 503 and a Retry-After hint', async (t) => {
+  const scratch = useScratchDirectory()
+  const embedder = {
+    ...createFakeEmbedder(384),
+    embed: async () => {
+      throw new EmbedderBusyError('Embedding queue is full (4 requests waiting)', 3)
+    }
+  }
+  const server = await buildServer({ embedder, logger: false })
+  t.after(async () => {
+    await server.close()
+    scratch.cleanup()
+  })
+
+  const response = await server.inject({
+    method: 'POST',
+    url: '/api/search',
+    payload: { query: 'box storage' }
+  })
+
+  assert.equal(response.statusCode, 503)
+  assert.equal(response.headers['retry-after'], '3')
+  assert.match(response.json().message, /queue is full/)
+})
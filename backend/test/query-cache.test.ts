@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict'
+import { beforeEach, test } from 'node:test'
+import { createFakeEmbedder } from '../src/embedders/fake.js'
+import type { Embedder } from '../src/embedders/embedder.js'
+import { getEmbeddingModel } from '../src/db/models.js'
+import { initializeEmbedder } from '../src/services/embedder.js'
+import { embedQueriesCached, embedQueryCached, initializeQueryCache } from '../src/services/query-cache.js'
+
+/**
+ * Case-sensitive fake embedder that records the texts it is asked to embed
+ *
+ * The capitals of each text are embedded as an extra word, so casings of
+ * the same text get different vectors, as with a case-sensitive model.
+ */
+function createRecordingEmbedder(): Embedder & { calls: string[][] } {
+  const fake = createFakeEmbedder(getEmbeddingModel().dimension)
+  const calls: string[][] = []
+  return {
+    ...fake,
+    calls,
+    async embed(texts) {
+      calls.push(texts)
+      return fake.embed(texts.map((text) => `${text} ${text.replace(/[^A-Z]/g, '')}`))
+    }
+  }
+}
+
+let embedder: ReturnType<typeof createRecordingEmbedder>
+
+beforeEach(async () => {
+  delete process.env.QUERY_CACHE_SIZE
+  delete process.env.QUERY_CACHE_PATH
+  embedder = createRecordingEmbedder()
+  await initializeEmbedder(embedder)
+  initializeQueryCache()
+})
+
+test('embeds the original casing with whitespace collapsed', async () => {
+  const { cache } = await embedQueryCached('  AtomicTransactionComposer   usage ')
+
+  assert.equal(cache, 'miss')
+  assert.deepEqual(embedder.calls, [['AtomicTransactionComposer usage']])
+})
+
+test('reuses a cached vector for the same text and whitespace only', async () => {
+  const first = await embedQueryCached('Box Storage')
+  const second = await embedQueryCached(' Box  Storage')
+
+  assert.equal(second.cache, 'hit')
+  assert.deepEqual(second.vector, first.vector)
+  assert.deepEqual(embedder.calls, [['Box Storage']])
+})
+
+test('gives each casing its own vector whatever the arrival order', async () => {
+  const upper = 'AtomicTransactionComposer'
+  const lower = 'atomictransactioncomposer'
+
+  const upperFirst = [(await embedQueryCached(upper)).vector, (await embedQueryCached(lower)).vector]
+  initializeQueryCache()
+  const lowerFirst = [(await embedQueryCached(lower)).vector, (await embedQueryCached(upper)).vector]
+
+  assert.deepEqual(lowerFirst[1], upperFirst[0])
+  assert.deepEqual(lowerFirst[0], upperFirst[1])
+  assert.notDeepEqual(upperFirst[0], upperFirst[1])
+})
+
+test('embeds the misses of a batch in one call', async () => {
+  await embedQueryCached('box storage')
+  const results = await embedQueriesCached(['box  storage', 'ASA creation', 'asa creation', 'ASA creation'])
+
+  assert.deepEqual(results.map((result) => result.cache), ['hit', 'miss', 'miss', 'shared'])
+  assert.deepEqual(embedder.calls, [['box storage'], ['ASA creation', 'asa creation']])
+})
+
+test('embeds every query when the cache is disabled', async () => {
+  process.env.QUERY_CACHE_SIZE = '0'
+  initializeQueryCache()
+
+  await embedQueryCached('Box Storage')
+  const { cache } = await embedQueryCached('Box Storage')
+
+  assert.equal(cache, 'miss')
+  assert.deepEqual(embedder.calls, [['Box Storage'], ['Box Storage']])
+})
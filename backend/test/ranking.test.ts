@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import {
+  collapseByKey,
+  maximalMarginalRelevance,
+  reciprocalRankFusion,
+  RRF_K
+} from '../src/services/ranking.js'
+
+test('reciprocalRankFusion rewards IDs ranked well in several lists', () => {
+  const scores = reciprocalRankFusion([
+    ['a', 'b', 'c'],
+    ['b', 'd']
+  ])
+
+  assert.equal(scores.get('a'), 1 / (RRF_K + 1))
+  assert.equal(scores.get('b'), 1 / (RRF_K + 2) + 1 / (RRF_K + 1))
+  assert.equal(scores.get('d'), 1 / (RRF_K + 2))
+  assert.ok(scores.get('b')! > scores.get('a')!)
+})
+
+// a and a2 are near-duplicates; b points elsewhere
+const items = ['a', 'a2', 'b']
+const vectors = [
+  [1, 0],
+  [0.99, 0.14],
+  [0, 1]
+]
+const relevance = [0.9, 0.85, 0.6]
+
+test('maximalMarginalRelevance keeps relevance order without diversity', () => {
+  assert.deepEqual(maximalMarginalRelevance(items, relevance, vectors, 0), ['a', 'a2', 'b'])
+})
+
+test('maximalMarginalRelevance sinks near-duplicates of picked items', () => {
+  assert.deepEqual(maximalMarginalRelevance(items, relevance, vectors, 0.5), ['a', 'b', 'a2'])
+})
+
+test('maximalMarginalRelevance keeps the original order on ties', () => {
+  assert.deepEqual(maximalMarginalRelevance(['x', 'y'], [0.5, 0.5], [[1, 0], [0, 1]], 0.3), ['x', 'y'])
+})
+
+test('collapseByKey groups items under their best-ranked member', () => {
+  const groups = collapseByKey(
+    [
+      { id: 1, title: 'Box storage' },
+      { id: 2, title: 'Assets' },
+      { id: 3, title: 'Box storage' },
+      { id: 4, title: '' },
+      { id: 5, title: '' }
+    ],
+    (item) => item.title
+  )
+
+  assert.deepEqual(
+    groups.map(({ item, variants }) => [item.id, variants.map((variant) => variant.id)]),
+    [[1, [3]], [2, []], [4, []], [5, []]]
+  )
+})
@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict'
+import { copyFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { after, before, test } from 'node:test'
+import * as lancedb from '@lancedb/lancedb'
+import {
+  acquireTable,
+  getCollectionStats,
+  getReloadStatus,
+  initializeDatabase,
+  reloadDatabase
+} from '../src/db/database.js'
+import { resolveEmbeddingsSource } from '../src/db/sources.js'
+import { DATA_DIR, useScratchDirectory } from './helpers.js'
+
+let scratch: ReturnType<typeof useScratchDirectory>
+let embeddingsPath: string
+
+before(async () => {
+  scratch = useScratchDirectory()
+  embeddingsPath = join(scratch.dir, 'embeddings.json')
+  copyFileSync(join(DATA_DIR, 'embeddings.json'), embeddingsPath)
+
+  await initializeDatabase({
+    collections: [{ name: 'examples', source: resolveEmbeddingsSource(embeddingsPath) }]
+  })
+})
+
+after(() => scratch.cleanup())
+
+const liveTableName = async () => (await getCollectionStats('examples')).tableName
+
+async function generations(): Promise<string[]> {
+  const connection = await lancedb.connect(join(scratch.dir, 'data', 'algokit-examples-db'))
+  return (await connection.tableNames()).filter((name) => name.startsWith('examples'))
+}
+
+/**
+ * Old generations are dropped in the background
+ */
+async function waitForGenerations(expected: string[]): Promise<void> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    if ((await generations()).sort().join() === [...expected].sort().join()) return
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+  assert.deepEqual((await generations()).sort(), [...expected].sort())
+}
+
+test('skips a reload when the file is unchanged', async () => {
+  const before = await liveTableName()
+  const result = await reloadDatabase()
+
+  assert.equal(result.status, 'unchanged')
+  assert.equal(await liveTableName(), before)
+})
+
+test('swaps in a new generation and drops the previous one', async () => {
+  const previous = await liveTableName()
+  const result = await reloadDatabase({ force: true })
+  const current = await liveTableName()
+
+  assert.equal(result.status, 'reloaded')
+  assert.notEqual(current, previous)
+  assert.equal(getReloadStatus()?.ok, true)
+  await waitForGenerations([current])
+})
+
+test('keeps a leased generation through several reloads until it is released', async () => {
+  const lease = acquireTable('examples')
+  const leased = await liveTableName()
+
+  for (let i = 0; i < 3; i++) {
+    await reloadDatabase({ force: true })
+  }
+  const current = await liveTableName()
+  await waitForGenerations([leased, current])
+  assert.equal(await lease.table.countRows(), 37)
+
+  lease.release()
+  lease.release()
+  await waitForGenerations([current])
+})
+
+test('keeps serving the previous generation when a reload fails', async () => {
+  const previous = await liveTableName()
+  writeFileSync(embeddingsPath, '[{ "example_id": "broken" }]')
+
+  await assert.rejects(reloadDatabase(), /^Error: Reload failed: /)
+  assert.equal(await liveTableName(), previous)
+  assert.equal(getReloadStatus()?.ok, false)
+  await waitForGenerations([previous])
+})
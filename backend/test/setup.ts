@@ -0,0 +1,6 @@
+// Node 20's test runner reads each test file's stdout for its own
+// messages, and misreads a line starting with a multi-byte character (the
+// services' "✓" logs) when it directly follows one of them. Logging to
+// stderr keeps the service logs out of that stream.
+console.log = console.error
+console.info = console.error
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, before, test } from 'node:test'
+import { Table, tableToIPC, vectorFromArray } from 'apache-arrow'
+import { createExamplesSchema } from '../src/db/models.js'
+import {
+  readRecordBatches,
+  resolveEmbeddingsSource,
+  writeEmbeddingsFile,
+  type EmbeddingsFormat
+} from '../src/db/sources.js'
+import { DATA_DIR } from './helpers.js'
+
+let dir: string
+let records: any[]
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'algokit-test-'))
+  records = JSON.parse(readFileSync(join(DATA_DIR, 'embeddings.json'), 'utf-8'))
+    .slice(0, 3)
+    .map((record: any) => ({ ...record, folder_name: record.folder_name ?? null, source_code: null }))
+})
+
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+async function readAll(path: string, format: EmbeddingsFormat, batchSize?: number): Promise<unknown[][]> {
+  const batches: unknown[][] = []
+  for await (const batch of readRecordBatches({ path, format, model: 'test' }, batchSize)) {
+    batches.push(batch)
+  }
+  return batches
+}
+
+test('resolveEmbeddingsSource infers the format from the extension', () => {
+  assert.equal(resolveEmbeddingsSource('a/b.ndjson').format, 'jsonl')
+  assert.equal(resolveEmbeddingsSource('b.feather').format, 'arrow')
+  assert.equal(resolveEmbeddingsSource('b.data', 'parquet').format, 'parquet')
+  assert.equal(resolveEmbeddingsSource('/abs/b.json').path, '/abs/b.json')
+  assert.throws(() => resolveEmbeddingsSource('b.data'), /Cannot infer embeddings format/)
+  assert.throws(() => resolveEmbeddingsSource('b.json', 'csv'), /Unknown embeddings format 'csv'/)
+})
+
+test('reads JSONL in batches, skipping blank lines', async () => {
+  const path = join(dir, 'records.jsonl')
+  writeFileSync(path, records.map((record) => JSON.stringify(record)).join('\n\n') + '\n')
+
+  const batches = await readAll(path, 'jsonl', 2)
+  assert.deepEqual(batches.map((batch) => batch.length), [2, 1])
+  assert.deepEqual(batches.flat(), records)
+})
+
+test('reports the line of invalid JSONL', async () => {
+  const path = join(dir, 'broken.jsonl')
+  writeFileSync(path, `${JSON.stringify(records[0])}\n{"example_id":\n`)
+
+  await assert.rejects(readAll(path, 'jsonl'), /Failed to parse embeddings file at line 2/)
+})
+
+test('reads Parquet', async () => {
+  // Written from the first records of data/embeddings.json, without source code
+  const batches = await readAll(join('test', 'fixtures', 'sample.parquet'), 'parquet', 2)
+
+  assert.deepEqual(batches.map((batch) => batch.length), [2, 1])
+  assert.deepEqual(batches.flat(), records)
+})
+
+for (const ipcFormat of ['file', 'stream'] as const) {
+  test(`reads Arrow IPC ${ipcFormat}s as plain records`, async () => {
+    const path = join(dir, `records-${ipcFormat}.arrow`)
+    const columns = createExamplesSchema(384).fields.map((field) => [
+      field.name,
+      vectorFromArray(records.map((record) => record[field.name]), field.type)
+    ])
+    writeFileSync(path, tableToIPC(new Table(Object.fromEntries(columns)), ipcFormat))
+
+    const [batch] = await readAll(path, 'arrow')
+    const [first] = batch as any[]
+    assert.ok(Array.isArray(first.vector) && Array.isArray(first.feature_tags))
+    assert.deepEqual(first.feature_tags, records[0].feature_tags)
+    assert.equal(first.folder_name, null)
+    // Vectors are stored as float32
+    assert.ok(first.vector.every((value: number, i: number) => Math.abs(value - records[0].vector[i]) < 1e-6))
+  })
+}
+
+test('writes JSON and JSONL that read back unchanged', async () => {
+  for (const format of ['json', 'jsonl'] as const) {
+    const path = join(dir, `written.${format}`)
+    await writeEmbeddingsFile(records, { path, format, model: 'test' })
+
+    assert.deepEqual((await readAll(path, format)).flat(), records)
+  }
+  await assert.rejects(
+    writeEmbeddingsFile(records, { path: join(dir, 'written.parquet'), format: 'parquet', model: 'test' }),
+    /Writing parquet embeddings files is not supported/
+  )
+})
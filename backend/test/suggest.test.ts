@@ -0,0 +1,16 @@
+import assert from 'node:assert/strict'
+import { test } from 'node:test'
+import { MIN_QUERY_COUNT, recordQuery, suggest } from '../src/services/suggest.js'
+
+const suggestedQueries = (text: string) =>
+  suggest(text).filter(({ source }) => source === 'query').map(({ text }) => text)
+
+test('suggests a past query only once it is searched often enough', () => {
+  for (let i = 1; i < MIN_QUERY_COUNT; i++) {
+    recordQuery('zebra rekeying')
+  }
+  assert.deepEqual(suggestedQueries('zebra'), [])
+
+  recordQuery('Zebra  Rekeying')
+  assert.deepEqual(suggestedQueries('zebra'), ['zebra rekeying'])
+})
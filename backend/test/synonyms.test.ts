@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { after, before, test } from 'node:test'
+import { expandQuery, loadSynonyms } from '../src/services/synonyms.js'
+
+let dir: string
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'algokit-test-'))
+  const path = join(dir, 'synonyms.json')
+  writeFileSync(path, JSON.stringify({
+    asa: ['algorand standard asset', 'token'],
+    'opt in': ['opt-in', 'asset opt-in'],
+    atc: ['atomic transaction composer', 'token'],
+    empty: []
+  }))
+  loadSynonyms(path)
+})
+
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+test('expands whole terms, case-insensitively', () => {
+  assert.deepEqual(expandQuery('Create an ASA'), {
+    text: 'Create an ASA algorand standard asset token',
+    expansions: [{ term: 'asa', expansions: ['algorand standard asset', 'token'] }]
+  })
+})
+
+test('does not expand terms inside other words', () => {
+  assert.deepEqual(expandQuery('asap casa asa-like'), { text: 'asap casa asa-like', expansions: [] })
+})
+
+test('treats spaces and hyphens in terms alike', () => {
+  assert.deepEqual(expandQuery('how to opt-in').expansions, [
+    { term: 'opt in', expansions: ['asset opt-in'] }
+  ])
+})
+
+test('skips expansions already in the query or added by an earlier term', () => {
+  assert.deepEqual(expandQuery('asa token with atc'), {
+    text: 'asa token with atc algorand standard asset atomic transaction composer',
+    expansions: [
+      { term: 'asa', expansions: ['algorand standard asset'] },
+      { term: 'atc', expansions: ['atomic transaction composer'] }
+    ]
+  })
+})
+
+test('a missing dictionary disables expansion', () => {
+  loadSynonyms(join(dir, 'missing.json'))
+
+  assert.deepEqual(expandQuery('asa'), { text: 'asa', expansions: [] })
+})
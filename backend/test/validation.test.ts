@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict'
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { after, afterEach, before, test } from 'node:test'
+import { getValidationReport, initializeDatabase } from '../src/db/database.js'
+import { resolveEmbeddingsSource } from '../src/db/sources.js'
+import { createValidator } from '../src/db/validation.js'
+import { DATA_DIR, useScratchDirectory } from './helpers.js'
+
+let scratch: ReturnType<typeof useScratchDirectory>
+let records: any[]
+
+before(() => {
+  scratch = useScratchDirectory()
+  records = JSON.parse(readFileSync(join(DATA_DIR, 'embeddings.json'), 'utf-8')).slice(0, 4)
+})
+
+afterEach(() => {
+  delete process.env.EMBEDDINGS_VALIDATION
+})
+
+after(() => scratch.cleanup())
+
+/**
+ * The sample records with one broken in each way the validator checks
+ */
+function brokenRecords(): any[] {
+  const [first, second, third, fourth] = structuredClone(records)
+  second.complexity = 'expert'
+  third.vector = third.vector.map((value: number) => value * 2)
+  fourth.example_id = first.example_id
+  return [first, second, third, fourth]
+}
+
+test('createValidator reports every invalid record and returns the valid ones', () => {
+  const validator = createValidator('lenient')
+  const valid = validator.validate(brokenRecords())
+  const report = validator.report()
+
+  assert.deepEqual(valid.map(({ example_id }) => example_id), [records[0].example_id])
+  assert.equal(report.checked, 4)
+  assert.equal(report.valid, 1)
+  assert.deepEqual(report.skipped.map(({ index }) => index), [1, 2, 3])
+  assert.match(report.skipped[0].issues[0], /unknown complexity 'expert'/)
+  assert.match(report.skipped[1].issues[0], /not L2-normalised/)
+  assert.match(report.skipped[2].issues[0], /duplicate example_id \(first seen at record 0\)/)
+})
+
+test('createValidator accepts null optional columns and counts across batches', () => {
+  const validator = createValidator('strict')
+  const [first, second] = structuredClone(records)
+  first.folder_name = null
+  second.vector = second.vector.slice(1)
+
+  assert.equal(validator.validate([first]).length, 1)
+  assert.equal(validator.validate([second]).length, 0)
+  assert.equal(validator.report().skipped[0].index, 1)
+  assert.match(validator.report().skipped[0].issues.join(), /vector has 383 dimensions, expected 384/)
+})
+
+test('strict validation refuses a file with invalid records', async () => {
+  const path = join(scratch.dir, 'strict.json')
+  writeFileSync(path, JSON.stringify(brokenRecords()))
+
+  await assert.rejects(
+    initializeDatabase({ collections: [{ name: 'strict', source: resolveEmbeddingsSource(path) }] }),
+    /3 of 4 records in strict\.json are invalid/
+  )
+})
+
+test('lenient validation loads the valid records and reports the rest', async () => {
+  process.env.EMBEDDINGS_VALIDATION = 'lenient'
+  const path = join(scratch.dir, 'lenient.json')
+  writeFileSync(path, JSON.stringify(brokenRecords()))
+
+  await initializeDatabase({ collections: [{ name: 'lenient', source: resolveEmbeddingsSource(path) }] })
+
+  const report = getValidationReport('lenient')!
+  assert.equal(report.mode, 'lenient')
+  assert.equal(report.valid, 1)
+  assert.equal(report.skipped.length, 3)
+})
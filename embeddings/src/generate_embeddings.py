@@ -43,6 +43,9 @@ def create_embedding_text(example: dict) -> str:
     - Feature tags and demonstrated features (categorization)
     - Complexity and target users (filtering context)
     - Language (technical context)
+
+    Mirrored by backend/src/services/embedding-text.ts for examples the
+    backend embeds itself; keep the two in sync.
     """
     parts = []
 